@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCacheStorage } from '@/lib/cache-storage';
+
+const archive = getCacheStorage();
+
+// Query archived news: ?date=YYYY-MM-DD or ?from=...&to=..., optionally &category=, &source=, &limit=
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = searchParams.get('limit');
+
+    const query = {
+      date: searchParams.get('date') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      category: searchParams.get('category') || undefined,
+      source: searchParams.get('source') || undefined,
+      limit: limit ? parseInt(limit, 10) : undefined
+    };
+
+    console.log(`🗄️ Archive API Request: ${JSON.stringify(query)}`);
+
+    let articles;
+    try {
+      articles = await archive.queryArticles(query);
+    } catch (queryError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: queryError instanceof Error ? queryError.message : 'Invalid archive query',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        query,
+        totalArticles: articles.length,
+        articles,
+        archive: await archive.getArchiveStats()
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('❌ Archive API Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
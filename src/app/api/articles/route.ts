@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ArticleContentStore from '@/lib/content-store';
+
+const contentStore = new ArticleContentStore();
+
+// Read a prefetched article body by id or URL (offline reading)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const url = searchParams.get('url');
+
+    if (!id && !url) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'id or url query parameter is required',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
+    const article = id ? await contentStore.get(id) : await contentStore.getByUrl(url!);
+
+    if (!article) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Article content has not been prefetched',
+          timestamp: new Date().toISOString()
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: article,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('❌ Articles API Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_PERSONA_ID, personaRegistry } from "@/lib/personas";
+
+// Narrator voices the UI can offer; pass an id as `persona` to the narrator endpoints
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    default: DEFAULT_PERSONA_ID,
+    personas: personaRegistry.list().map(({ id, name, title, description }) => ({ id, name, title, description })),
+  });
+}
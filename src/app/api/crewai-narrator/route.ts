@@ -1,76 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { initializeCrew } from "@/lib/ai-agents";
-import { scrapeArticle } from "@/lib/article-scraper";
-import fs from "fs";
-import path from "path";
+import NarratorService, { NarrationError } from "@/lib/narrator-service";
 
-// Cache directory for storing narration results
-const CACHE_DIR = path.join(process.cwd(), "cache", "ai-narrator");
-
-// Ensure cache directory exists
-if (!fs.existsSync(CACHE_DIR)) {
-  fs.mkdirSync(CACHE_DIR, { recursive: true });
-}
-
-// Generate a cache key from the news link and article content
-function getCacheKey(newsLink: string, articleContent?: string): string {
-  // Create a hash from both URL and content preview
-  const contentPreview = articleContent ? articleContent.substring(0, 500) : '';
-  const combined = `${newsLink}|${contentPreview}`;
-
-  let hash = 0;
-  for (let i = 0; i < combined.length; i++) {
-    const char = combined.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return `narration_${Math.abs(hash)}.json`;
-}
-
-// Get cached narration if it exists
-function getCachedNarration(newsLink: string): {
-  success: boolean;
-  data?: any;
-} {
-  try {
-    const cacheKey = getCacheKey(newsLink);
-    const cachePath = path.join(CACHE_DIR, cacheKey);
-
-    if (fs.existsSync(cachePath)) {
-      const cachedData = fs.readFileSync(cachePath, "utf-8");
-      return {
-        success: true,
-        data: JSON.parse(cachedData),
-      };
-    }
-  } catch (error) {
-    console.error("Error reading cache:", error);
-  }
-
-  return { success: false };
-}
-
-// Save narration to cache with specific key
-function saveToCacheWithKey(cacheKey: string, data: any): { success: boolean; error?: string } {
-  try {
-    const cachePath = path.join(CACHE_DIR, cacheKey);
-
-    fs.writeFileSync(cachePath, JSON.stringify(data, null, 2));
-    return { success: true };
-  } catch (error) {
-    console.error("Error saving to cache:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-    };
-  }
-}
+const narrator = new NarratorService();
 
 export async function POST(request: NextRequest) {
   try {
-    const { news_link } = await request.json();
+    const { news_link, persona } = await request.json();
 
-    if (!news_link) {
+    if (!news_link || typeof news_link !== "string") {
       return NextResponse.json(
         {
           success: false,
@@ -80,57 +17,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if we have a cached version
-    const cachedResult = getCachedNarration(news_link);
-    if (cachedResult.success && cachedResult.data) {
-      console.log("🎯 Returning cached narration");
-      return NextResponse.json({
-        ...cachedResult.data,
-        cached: true,
-      });
-    }
-
-    console.log("🚀 Starting AI narration for:", news_link);
-
-    // First, scrape the article content
-    console.log("📄 Scraping article content...");
-    const articleData = await scrapeArticle(news_link);
-
-    if (!articleData.success || !articleData.content) {
-      return NextResponse.json({
-        success: false,
-        details: "Failed to scrape article content. The article may be behind a paywall or unavailable.",
-        error: articleData.error
-      }, { status: 400 });
+    if (persona !== undefined && typeof persona !== "string") {
+      return NextResponse.json(
+        {
+          success: false,
+          details: "persona must be a persona id string",
+        },
+        { status: 400 }
+      );
     }
 
-    console.log(`📝 Article scraped: "${articleData.title}" (${articleData.content.length} chars)`);
-
-    // Initialize AI agents with the actual article content
-    const { crew } = initializeCrew(news_link, articleData.content, articleData.title);
-
-    // Execute the crew
-    const tolstoyNarration = await crew.kickoff();
-
-    // Extract title from scraped article or use a default
-    const urlObj = new URL(news_link);
-    const title = articleData.title || urlObj.hostname.split(".")[0] || "News Article";
-
-    const result = {
-      success: true,
-      news_link,
-      title: `${title} - Roald Dahl's Narrative`,
-      roald_dahl_narration: tolstoyNarration,
-      article_content: articleData.content.substring(0, 1000) + (articleData.content.length > 1000 ? '...' : ''), // Include preview of article content
-      timestamp: new Date().toISOString(),
-    };
-
-    // Save to cache with content-based key
-    const cacheKey = getCacheKey(news_link, articleData.content);
-    saveToCacheWithKey(cacheKey, result);
-
+    // Cached narrations come back with cached: true
+    const result = await narrator.narrate(news_link, { persona });
     return NextResponse.json(result);
   } catch (error) {
+    if (error instanceof NarrationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          details: error.message,
+          ...(error.reason && { error: error.reason }),
+        },
+        { status: error.status }
+      );
+    }
+
     console.error("Error in ai-narrator API:", error);
     return NextResponse.json(
       {
@@ -157,13 +68,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Try to get from cache
-    const cachedResult = getCachedNarration(news_link);
-    if (cachedResult.success && cachedResult.data) {
-      return NextResponse.json({
-        ...cachedResult.data,
-        cached: true,
-      });
+    // Try to get from cache, in the requested persona's voice
+    const cachedResult = await narrator.getCached(news_link, searchParams.get("persona") || undefined);
+    if (cachedResult) {
+      return NextResponse.json(cachedResult);
     }
 
     return NextResponse.json(
@@ -174,6 +82,10 @@ export async function GET(request: NextRequest) {
       { status: 404 }
     );
   } catch (error) {
+    if (error instanceof NarrationError) {
+      return NextResponse.json({ success: false, details: error.message }, { status: error.status });
+    }
+
     console.error("Error in ai-narrator GET:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import NarratorService, { NarrationError } from "@/lib/narrator-service";
+
+// Streams can't be prerendered or cached
+export const dynamic = "force-dynamic";
+
+const narrator = new NarratorService();
+
+/**
+ * Server-Sent Events version of POST /api/crewai-narrator:
+ * GET /api/crewai-narrator/stream?news_link=...&persona=...
+ *
+ * Events: status, article, task-start, tool-call, task-complete, task-error,
+ * token (the story as it is written), then result or failed.
+ */
+export async function GET(request: NextRequest) {
+  const news_link = request.nextUrl.searchParams.get("news_link");
+
+  if (!news_link) {
+    return NextResponse.json(
+      {
+        success: false,
+        details: "news_link query parameter is required",
+      },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          closed = true;
+        }
+      };
+
+      // A reader who leaves doesn't stop the crew: the narration still finishes and is cached
+      request.signal.addEventListener("abort", () => {
+        closed = true;
+      });
+
+      try {
+        const result = await narrator.narrate(news_link, {
+          persona: request.nextUrl.searchParams.get("persona") || undefined,
+          onEvent: (event) => send(event.type, event),
+        });
+        send("result", result);
+      } catch (error) {
+        if (!(error instanceof NarrationError)) {
+          console.error("Error in ai-narrator stream:", error);
+        }
+        // Named "failed" because EventSource uses "error" for connection problems
+        send("failed", {
+          success: false,
+          status: error instanceof NarrationError ? error.status : 500,
+          details: error instanceof Error ? error.message : "Unknown error",
+          ...(error instanceof NarrationError && error.reason && { error: error.reason }),
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stop proxies such as nginx from buffering the stream
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -1,16 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
 import NewsService from '@/lib/news-service';
 
 // Initialize news service with auto-scheduling
 const newsService = new NewsService();
 
+// Actions that change the schedule or trigger bulk fetching need ADMIN_TOKEN
+const ADMIN_ACTIONS = new Set(['prefetch-content', 'reload-jobs', 'pause-job', 'resume-job', 'trigger-job']);
+
+/**
+ * Check the x-admin-token header against ADMIN_TOKEN. Admin actions stay
+ * locked when no token is configured.
+ */
+function isAdmin(request: NextRequest): boolean {
+  const expected = process.env.ADMIN_TOKEN;
+  const provided = request.headers.get('x-admin-token');
+  if (!expected || !provided) {
+    return false;
+  }
+
+  const expectedBytes = Buffer.from(expected);
+  const providedBytes = Buffer.from(provided);
+  return expectedBytes.length === providedBytes.length && timingSafeEqual(expectedBytes, providedBytes);
+}
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const forceRefresh = searchParams.get('refresh') === 'true';
     const category = searchParams.get('category');
+    const since = searchParams.get('since');
 
-    console.log(`📰 API Request: forceRefresh=${forceRefresh}, category=${category}`);
+    console.log(`📰 API Request: forceRefresh=${forceRefresh}, category=${category}, since=${since}`);
+
+    if (since && isNaN(new Date(since).getTime())) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid since timestamp: ${since}`,
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
 
     // Get latest news
     const newsData = await newsService.getLatestNews({ forceRefresh });
@@ -23,19 +55,24 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // What changed since the reader's last visit
+    const changes = since ? await newsService.getChangesSince(new Date(since).toISOString()) : null;
+
     // Format response
     const response = {
       success: true,
       data: {
         lastUpdated: newsData.scrapedAt,
         source: newsData.source,
+        ...(newsData.sources && { sources: newsData.sources }),
         totalArticles: filteredArticles.length,
         articles: filteredArticles,
         fromCache: newsData.fromCache,
         scrapedAt: newsData.scrapedAt,
         ...(newsData.cacheInfo && { cacheInfo: newsData.cacheInfo }),
         ...(newsData.isStale && { isStale: newsData.isStale }),
-        ...(newsData.error && { error: newsData.error })
+        ...(newsData.error && { error: newsData.error }),
+        ...(changes && { changes })
       },
       timestamp: new Date().toISOString()
     };
@@ -59,10 +96,21 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { action } = body;
+    const { action, jobId } = body;
 
     console.log(`🔄 API POST Request: action=${action}`);
 
+    if (ADMIN_ACTIONS.has(action) && !isAdmin(request)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `The ${action} action requires a valid x-admin-token header`,
+          timestamp: new Date().toISOString()
+        },
+        { status: 401 }
+      );
+    }
+
     switch (action) {
       case 'refresh':
         const refreshedData = await newsService.refreshNews();
@@ -89,11 +137,96 @@ export async function POST(request: NextRequest) {
           timestamp: new Date().toISOString()
         });
 
+      case 'prefetch-content':
+        const currentNews = await newsService.getLatestNews();
+        const prefetchResult = await newsService.prefetchArticleContent(currentNews.articles);
+        return NextResponse.json({
+          success: true,
+          message: `Prefetched ${prefetchResult.fetched} article bodies`,
+          data: prefetchResult,
+          timestamp: new Date().toISOString()
+        });
+
+      case 'sources':
+        return NextResponse.json({
+          success: true,
+          data: newsService.getSources(),
+          timestamp: new Date().toISOString()
+        });
+
+      case 'jobs':
+        return NextResponse.json({
+          success: true,
+          data: {
+            jobs: newsService.getScheduledJobs(),
+            history: newsService.getScheduler().getHistory(jobId)
+          },
+          timestamp: new Date().toISOString()
+        });
+
+      case 'reload-jobs': {
+        let jobs;
+        try {
+          jobs = newsService.getScheduler().reload();
+        } catch (error) {
+          // The previous schedule is still running
+          return NextResponse.json(
+            {
+              success: false,
+              error: `Jobs config not reloaded, keeping the current schedule: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              timestamp: new Date().toISOString()
+            },
+            { status: 400 }
+          );
+        }
+
+        return NextResponse.json({
+          success: true,
+          message: 'Jobs config reloaded',
+          data: jobs,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      case 'pause-job':
+      case 'resume-job':
+      case 'trigger-job': {
+        const scheduler = newsService.getScheduler();
+        if (!jobId || !scheduler.has(jobId)) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: jobId ? `Unknown job: ${jobId}` : 'jobId is required',
+              timestamp: new Date().toISOString()
+            },
+            { status: jobId ? 404 : 400 }
+          );
+        }
+
+        if (action === 'trigger-job') {
+          const run = await scheduler.trigger(jobId);
+          return NextResponse.json({
+            success: run.status === 'success',
+            message: run.status === 'success' ? `Job ${jobId} completed` : `Job ${jobId} failed: ${run.error}`,
+            data: run,
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        const job = action === 'pause-job' ? await scheduler.pause(jobId) : await scheduler.resume(jobId);
+        return NextResponse.json({
+          success: true,
+          message: `Job ${jobId} ${action === 'pause-job' ? 'paused' : 'resumed'}`,
+          data: job,
+          timestamp: new Date().toISOString()
+        });
+      }
+
       default:
         return NextResponse.json(
           {
             success: false,
-            error: 'Invalid action. Supported actions: refresh, clear-cache, cache-info',
+            error: 'Invalid action. Supported actions: refresh, clear-cache, cache-info, prefetch-content, sources, jobs, reload-jobs, pause-job, resume-job, trigger-job',
             timestamp: new Date().toISOString()
           },
           { status: 400 }
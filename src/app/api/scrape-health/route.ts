@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCacheStorage } from '@/lib/cache-storage';
+import { getScrapeHealth } from '@/lib/scrape-health';
+
+const storage = getCacheStorage();
+
+// Scrape metrics and anomalies: ?limit= (runs returned, default 20), &source= (one source id)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+
+    if (isNaN(limit) || limit < 1) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'limit must be a positive number',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
+    const health = await getScrapeHealth(storage, {
+      limit,
+      sourceId: searchParams.get('source') || undefined
+    });
+
+    console.log(`🩺 Scrape health: ${health.status} (${health.anomalies.length} anomalies)`);
+
+    return NextResponse.json({
+      success: true,
+      data: health,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('❌ Scrape Health API Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,21 +1,100 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useSearchParams } from 'next/navigation';
-import { Loader, Copy, Check, Sparkles, Volume2, Pause, Play } from 'lucide-react';
+import { Loader, Copy, Check, Circle, XCircle, Sparkles, Volume2, Pause, Play } from 'lucide-react';
+import { DEFAULT_PERSONA_ID } from '@/lib/personas';
+
+interface ArticleMetadata {
+  authors: string[];
+  published_at: string | null;
+  section: string | null;
+  site_name: string | null;
+}
 
 interface AIResult {
   success: boolean;
   news_link: string;
   title: string;
-  roald_dahl_narration: string;
+  persona: { id: string; name: string; title: string };
+  narration: string;
+  article_metadata?: ArticleMetadata;
   cached: boolean;
   timestamp: string;
 }
 
+// A narrator voice from /api/crewai-narrator/personas
+interface PersonaOption {
+  id: string;
+  name: string;
+  description: string;
+}
+
+type StepState = 'pending' | 'running' | 'done' | 'failed';
+
+interface AgentStep {
+  task: string;
+  label: string;
+  waitingFor: string;
+  state: StepState;
+  durationMs?: number;
+  tools: string[];
+}
+
+// Progress of a streamed narration
+interface NarrationProgress {
+  status: string;
+  articleTitle?: string;
+  steps: AgentStep[];
+  storyText: string;
+}
+
+// Task names used by the narrator crew
+const AGENT_STEPS: Omit<AgentStep, 'state' | 'tools'>[] = [
+  { task: 'history', label: 'History Research Agent', waitingFor: 'Waiting for the article' },
+  { task: 'summary', label: 'News Summary Agent', waitingFor: 'Waiting for the article' },
+  { task: 'story', label: 'Storyteller', waitingFor: 'Waiting for the history and summary' }
+];
+
+const TOOL_LABELS: Record<string, string> = {
+  search_archive: 'searched the archive',
+  fetch_article: 'read a related article',
+  web_search: 'searched the web'
+};
+
+function describeStep(step: AgentStep): string {
+  const tools = Array.from(new Set(step.tools.map(tool => TOOL_LABELS[tool] || tool))).join(', ');
+  switch (step.state) {
+    case 'pending':
+      return step.waitingFor;
+    case 'running':
+      return tools ? `Working... (${tools})` : 'Working...';
+    case 'done':
+      return `Done in ${((step.durationMs || 0) / 1000).toFixed(1)}s${tools ? ` (${tools})` : ''}`;
+    case 'failed':
+      return 'Failed';
+  }
+}
+
+// Build "By Jane Doe • ABC News • Published October 19, 2026 • Politics"
+function formatByline(metadata: ArticleMetadata): string {
+  return [
+    metadata.authors.length > 0 && `By ${metadata.authors.join(', ')}`,
+    metadata.site_name,
+    metadata.published_at && `Published ${new Date(metadata.published_at).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    })}`,
+    metadata.section
+  ].filter(Boolean).join(' • ');
+}
+
 export default function AIPage() {
   const searchParams = useSearchParams();
   const [newsLink, setNewsLink] = useState('');
+  const [persona, setPersona] = useState(DEFAULT_PERSONA_ID);
+  const [personas, setPersonas] = useState<PersonaOption[]>([]);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<AIResult | null>(null);
   const [error, setError] = useState('');
@@ -24,19 +103,42 @@ export default function AIPage() {
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [isGeneratingAudio, setIsGeneratingAudio] = useState(false);
+  const [progress, setProgress] = useState<NarrationProgress | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
 
-  // Check for URL parameter on component mount
+  // Close any open narration stream when leaving the page
+  useEffect(() => {
+    return () => eventSourceRef.current?.close();
+  }, []);
+
+  // Load the narrator voices for the persona picker
+  useEffect(() => {
+    fetch('/api/crewai-narrator/personas')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setPersonas(data.personas);
+        }
+      })
+      .catch(err => console.error('Failed to load narrator personas:', err));
+  }, []);
+
+  // Check for URL parameters on component mount
   useEffect(() => {
     const urlParam = searchParams.get('news_link');
     if (urlParam && !autoStarted) {
       const decodedUrl = decodeURIComponent(urlParam);
+      const personaParam = searchParams.get('persona') || DEFAULT_PERSONA_ID;
       setNewsLink(decodedUrl);
+      setPersona(personaParam);
       setAutoStarted(true);
-      processNews(decodedUrl);
+      processNews(decodedUrl, personaParam);
     }
   }, [searchParams, autoStarted]);
 
-  const processNews = async (url: string) => {
+  // Stream the narration so each agent's progress and the story show up as they happen
+  const processNews = (url: string, personaId: string) => {
+    eventSourceRef.current?.close();
     setError('');
     setResult(null);
 
@@ -46,39 +148,90 @@ export default function AIPage() {
     }
 
     setLoading(true);
-
-    try {
-      const response = await fetch('/api/crewai-narrator', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ news_link: url }),
+    setProgress({
+      status: 'Checking the link...',
+      steps: AGENT_STEPS.map(step => ({ ...step, state: 'pending', tools: [] })),
+      storyText: ''
+    });
+
+    const source = new EventSource(
+      `/api/crewai-narrator/stream?news_link=${encodeURIComponent(url)}&persona=${encodeURIComponent(personaId)}`
+    );
+    eventSourceRef.current = source;
+
+    const read = (event: Event) => JSON.parse((event as MessageEvent).data);
+    const finish = () => {
+      source.close();
+      eventSourceRef.current = null;
+      setProgress(null);
+      setLoading(false);
+    };
+    const updateStep = (task: string, update: (step: AgentStep) => Partial<AgentStep>) => {
+      setProgress(current => current && {
+        ...current,
+        steps: current.steps.map(step => step.task === task ? { ...step, ...update(step) } : step)
       });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.details || 'Failed to process news');
-      }
-
-      const data: AIResult = await response.json();
+    };
+
+    source.addEventListener('status', event => {
+      const { message } = read(event);
+      setProgress(current => current && { ...current, status: message });
+    });
+    source.addEventListener('article', event => {
+      const { title, persona } = read(event);
+      setProgress(current => current && {
+        ...current,
+        articleTitle: title,
+        status: 'The agents are reading the article',
+        // Name the storyteller after the persona the server is actually using
+        steps: current.steps.map(step => step.task === 'story' ? { ...step, label: `Storyteller (${persona.name})` } : step)
+      });
+    });
+    source.addEventListener('task-start', event => {
+      updateStep(read(event).task, () => ({ state: 'running' }));
+    });
+    source.addEventListener('tool-call', event => {
+      const { task, tool } = read(event);
+      updateStep(task, step => ({ tools: [...step.tools, tool] }));
+    });
+    source.addEventListener('task-complete', event => {
+      const { task, durationMs } = read(event);
+      updateStep(task, () => ({ state: 'done', durationMs }));
+    });
+    source.addEventListener('task-error', event => {
+      updateStep(read(event).task, () => ({ state: 'failed' }));
+    });
+    source.addEventListener('token', event => {
+      const { text } = read(event);
+      setProgress(current => current && { ...current, storyText: current.storyText + text });
+    });
+    source.addEventListener('result', event => {
+      const data: AIResult = read(event);
       setResult(data);
       setNewsLink('');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-    } finally {
-      setLoading(false);
-    }
+      finish();
+    });
+    source.addEventListener('failed', event => {
+      setError(read(event).details || 'Failed to process news');
+      finish();
+    });
+    // Connection problems (the server closing the stream early, going offline)
+    source.onerror = () => {
+      if (eventSourceRef.current === source) {
+        setError('Lost the connection to the narrator. Please try again.');
+        finish();
+      }
+    };
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    await processNews(newsLink);
+    processNews(newsLink, persona);
   };
 
   const handleCopy = () => {
     if (result) {
-      navigator.clipboard.writeText(result.roald_dahl_narration);
+      navigator.clipboard.writeText(result.narration);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
@@ -98,7 +251,7 @@ export default function AIPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          text: result.roald_dahl_narration,
+          text: result.narration,
         }),
       });
 
@@ -200,7 +353,7 @@ export default function AIPage() {
             Transform News with <span className="text-green-600">AI</span>
           </h2>
           <p className="text-gray-600 text-lg max-w-2xl mx-auto">
-            Enter a news article URL and watch as our AI agents transform it into a Roald Dahl-inspired children's story.
+            Enter a news article URL, pick a narrator, and watch as our AI agents retell the story in that voice.
           </p>
         </div>
 
@@ -237,6 +390,27 @@ export default function AIPage() {
             </button>
           </div>
 
+          {personas.length > 0 && (
+            <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2">
+              <label htmlFor="persona" className="text-sm font-medium text-gray-700">
+                Narrator
+              </label>
+              <select
+                id="persona"
+                value={persona}
+                onChange={(e) => setPersona(e.target.value)}
+                disabled={loading}
+                className="flex-1 px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-gray-900 text-sm focus:outline-none focus:border-green-500 focus:ring-2 focus:ring-green-500/20 transition"
+              >
+                {personas.map(option => (
+                  <option key={option.id} value={option.id}>
+                    {option.name} - {option.description}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {error && (
             <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
               {error}
@@ -244,17 +418,52 @@ export default function AIPage() {
           )}
         </form>
 
-        {loading && (
-          <div className="text-center mb-8">
-            <div className="inline-flex flex-col items-center gap-4">
-              <div className="relative w-16 h-16">
+        {loading && progress && (
+          <div className="mb-8 bg-white rounded-lg shadow-md p-6 sm:p-8 border border-gray-200">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="relative w-10 h-10 flex-shrink-0">
                 <div className="absolute inset-0 border-4 border-gray-200 border-t-green-600 rounded-full animate-spin"></div>
               </div>
               <div>
                 <p className="text-gray-900 font-semibold">AI Processing</p>
-                <p className="text-gray-600 text-sm">History Research Agent is working...</p>
+                <p className="text-gray-600 text-sm">
+                  {progress.articleTitle ? `"${progress.articleTitle}"` : progress.status}
+                </p>
               </div>
             </div>
+
+            <ul className="space-y-3">
+              {progress.steps.map(step => (
+                <li key={step.task} className="flex items-start gap-3">
+                  {step.state === 'running' ? (
+                    <Loader className="w-5 h-5 mt-0.5 text-green-600 animate-spin" />
+                  ) : step.state === 'done' ? (
+                    <Check className="w-5 h-5 mt-0.5 text-green-600" />
+                  ) : step.state === 'failed' ? (
+                    <XCircle className="w-5 h-5 mt-0.5 text-red-600" />
+                  ) : (
+                    <Circle className="w-5 h-5 mt-0.5 text-gray-300" />
+                  )}
+                  <div>
+                    <p className={`text-sm font-medium ${step.state === 'pending' ? 'text-gray-500' : 'text-gray-900'}`}>
+                      {step.label}
+                    </p>
+                    <p className="text-xs text-gray-500">{describeStep(step)}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {progress.storyText && (
+              <div className="mt-6 pt-6 border-t border-gray-200 text-gray-700 text-sm sm:text-base leading-relaxed space-y-4">
+                {progress.storyText.split('\n\n').map((paragraph, idx) => (
+                  <p key={idx} className="text-justify">
+                    {paragraph}
+                  </p>
+                ))}
+                <span className="inline-block w-2 h-4 bg-green-600 animate-pulse align-middle"></span>
+              </div>
+            )}
           </div>
         )}
 
@@ -262,6 +471,11 @@ export default function AIPage() {
           <div className="space-y-6">
             <div className="bg-white rounded-lg shadow-md p-6 sm:p-8 border border-gray-200">
               <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-2">{result.title}</h2>
+              {result.article_metadata && formatByline(result.article_metadata) && (
+                <p className="text-gray-700 text-sm mb-2">
+                  {formatByline(result.article_metadata)}
+                </p>
+              )}
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between text-gray-600 text-xs sm:text-sm gap-2">
                 <p>
                   {new Date(result.timestamp).toLocaleDateString('en-US', {
@@ -285,7 +499,7 @@ export default function AIPage() {
               <div className="flex items-center justify-between mb-6">
                 <h3 className="text-lg sm:text-xl font-semibold text-gray-900 flex items-center gap-2">
                   <Sparkles className="w-5 h-5 text-green-600" />
-                  Roald Dahl's Narrative
+                  {result.persona.title}
                 </h3>
                 <div className="flex items-center gap-2">
                   {/* Voice Over Button */}
@@ -347,7 +561,7 @@ export default function AIPage() {
 
               <div className="prose prose-sm max-w-none">
                 <div className="text-gray-700 text-sm sm:text-base leading-relaxed space-y-4">
-                  {result.roald_dahl_narration.split('\n\n').map((paragraph, idx) => (
+                  {result.narration.split('\n\n').map((paragraph, idx) => (
                     <p key={idx} className="text-justify">
                       {paragraph}
                     </p>
@@ -396,7 +610,7 @@ export default function AIPage() {
 
         {!result && !loading && (
           <div className="text-center py-12 text-gray-600">
-            <p className="text-sm sm:text-base">Enter a news link and click Generate to transform it into a Roald Dahl-inspired children's story</p>
+            <p className="text-sm sm:text-base">Enter a news link and click Generate to retell it in your chosen narrator's voice</p>
           </div>
         )}
       </div>
@@ -4,9 +4,13 @@ import type { NewsArticle } from '@/lib/types';
 
 interface NewsCardProps {
   article: NewsArticle;
+  /** Added since the reader's last visit */
+  isNew?: boolean;
+  /** Retitled since the reader's last visit */
+  isUpdated?: boolean;
 }
 
-export default function NewsCard({ article }: NewsCardProps) {
+export default function NewsCard({ article, isNew = false, isUpdated = false }: NewsCardProps) {
   const router = useRouter();
 
   // Format the published date to 12-hour format
@@ -38,11 +42,32 @@ export default function NewsCard({ article }: NewsCardProps) {
       onClick={handleCardClick}
     >
       <div className="flex flex-col space-y-3">
+        {/* Thumbnail (if available) */}
+        {article.imageUrl && (
+          <img
+            src={article.imageUrl}
+            alt=""
+            loading="lazy"
+            className="w-full h-40 object-cover rounded-md"
+          />
+        )}
+
         {/* Category Badge */}
         <div className="flex items-center justify-between">
-          <span className="inline-block bg-blue-100 text-blue-800 text-xs font-semibold px-2.5 py-0.5 rounded-full">
-            {article.category}
-          </span>
+          <div className="flex items-center gap-2">
+            <span className="inline-block bg-blue-100 text-blue-800 text-xs font-semibold px-2.5 py-0.5 rounded-full">
+              {article.category}
+            </span>
+            {isNew ? (
+              <span className="inline-block bg-green-600 text-white text-xs font-semibold px-2.5 py-0.5 rounded-full">
+                New
+              </span>
+            ) : isUpdated && (
+              <span className="inline-block bg-amber-100 text-amber-800 text-xs font-semibold px-2.5 py-0.5 rounded-full">
+                Updated
+              </span>
+            )}
+          </div>
           <span className="text-xs text-gray-500">
             {formatDate(article.publishedAt)}
           </span>
@@ -63,7 +88,7 @@ export default function NewsCard({ article }: NewsCardProps) {
         {/* Footer with source and date */}
         <div className="flex items-center justify-between pt-2 border-t border-gray-100">
           <span className="text-xs text-gray-500">
-            ABC News
+            {article.source || 'ABC News'}
           </span>
           <span className="text-xs text-gray-400">
             {formatDate(article.scrapedAt)}
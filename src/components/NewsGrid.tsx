@@ -1,14 +1,51 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import NewsCard from './NewsCard';
 import CategoryFilter from './CategoryFilter';
 import type { NewsArticle, Category, NewsData } from '@/lib/types';
+import type { JobStatus } from '@/lib/job-scheduler';
 
 interface NewsGridProps {
   initialData?: NewsData;
 }
 
+// localStorage holds the previous visit; sessionStorage pins it for this tab so reloads keep the badges
+const LAST_VISIT_KEY = 'news-storyteller:last-visit';
+const SESSION_SINCE_KEY = 'news-storyteller:since';
+
+// Timestamp of the reader's previous visit, recording this visit for next time
+const getLastVisit = (): string | null => {
+  try {
+    const pinned = sessionStorage.getItem(SESSION_SINCE_KEY);
+    if (pinned) return pinned;
+
+    const lastVisit = localStorage.getItem(LAST_VISIT_KEY);
+    localStorage.setItem(LAST_VISIT_KEY, new Date().toISOString());
+    if (lastVisit) sessionStorage.setItem(SESSION_SINCE_KEY, lastVisit);
+    return lastVisit;
+  } catch {
+    return null; // Storage unavailable (private mode, disabled cookies)
+  }
+};
+
+// Footer text for the active refresh jobs, e.g. "Auto-refreshes daily at 6:00 AM (Asia/Kolkata)"
+const describeSchedule = (jobs: JobStatus[]): string => {
+  const active = jobs.filter(job => job.isScheduled);
+  if (active.length === 0) return 'Auto-refresh is off';
+
+  const times = active.map(job => {
+    const zone = job.timezone ? ` (${job.timezone})` : '';
+    const daily = job.cron.trim().match(/^(\d{1,2}) (\d{1,2}) \* \* \*$/);
+    if (!daily) return `on schedule ${job.cron}${zone}`;
+
+    const hour = Number(daily[2]);
+    const minute = daily[1].padStart(2, '0');
+    return `daily at ${hour % 12 || 12}:${minute} ${hour < 12 ? 'AM' : 'PM'}${zone}`;
+  });
+  return `Auto-refreshes ${times.join(', ')}`;
+};
+
 export default function NewsGrid({ initialData }: NewsGridProps) {
   const [newsData, setNewsData] = useState<NewsData | null>(initialData || null);
   const [selectedCategory, setSelectedCategory] = useState<Category>('All');
@@ -16,6 +53,8 @@ export default function NewsGrid({ initialData }: NewsGridProps) {
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [allArticles, setAllArticles] = useState<NewsArticle[]>([]);
+  const [refreshSchedule, setRefreshSchedule] = useState<string | null>(null);
+  const lastVisitRef = useRef<string | null>(null);
 
   // Get all unique categories from full dataset (not filtered)
   const getAllCategories = (): Category[] => {
@@ -45,6 +84,9 @@ export default function NewsGrid({ initialData }: NewsGridProps) {
       if (forceRefresh) {
         params.append('refresh', 'true');
       }
+      if (lastVisitRef.current) {
+        params.append('since', lastVisitRef.current);
+      }
 
       const response = await fetch(`/api/news?${params.toString()}`);
       const data = await response.json();
@@ -76,11 +118,30 @@ export default function NewsGrid({ initialData }: NewsGridProps) {
     await fetchNews(selectedCategory, true);
   };
 
+  // Fetch the refresh schedule for the footer
+  const fetchSchedule = async () => {
+    try {
+      const response = await fetch('/api/news', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'jobs' })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setRefreshSchedule(describeSchedule(data.data?.jobs || []));
+      }
+    } catch {
+      // Leave the schedule out of the footer
+    }
+  };
+
   // Initial load
   useEffect(() => {
+    lastVisitRef.current = getLastVisit();
     if (!initialData) {
       fetchNews();
     }
+    fetchSchedule();
   }, []);
 
   // Calculate article counts by category
@@ -133,6 +194,12 @@ export default function NewsGrid({ initialData }: NewsGridProps) {
   const articles = newsData?.data?.articles || [];
   const cacheInfo = newsData?.data?.cacheInfo;
 
+  // Stories added or retitled since the reader's last visit
+  const changes = newsData?.data?.changes;
+  const newUrls = new Set(changes?.added || []);
+  const updatedUrls = new Set((changes?.titleChanged || []).map(change => change.url));
+  const newCount = articles.filter(article => newUrls.has(article.url)).length;
+
   // Filter articles based on selected category
   const getFilteredArticles = (): NewsArticle[] => {
     if (!articles) return [];
@@ -187,6 +254,11 @@ export default function NewsGrid({ initialData }: NewsGridProps) {
           <p className="text-gray-600 text-lg max-w-2xl">
             Discover the most compelling news stories, beautifully presented and thoughtfully curated.
           </p>
+          {newCount > 0 && (
+            <p className="mt-4 inline-flex items-center gap-2 bg-green-50 text-green-700 text-sm font-medium px-4 py-2 rounded-full">
+              🆕 {newCount} new {newCount === 1 ? 'story' : 'stories'} since your last visit
+            </p>
+          )}
 
           {/* Category Filter Pills */}
           <div className="mt-8 flex flex-wrap gap-3">
@@ -235,7 +307,12 @@ export default function NewsGrid({ initialData }: NewsGridProps) {
         {articles.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {filteredArticles.map((article, index) => (
-              <NewsCard key={`${article.id}-${article.category}-${index}`} article={article} />
+              <NewsCard
+                key={`${article.id}-${article.category}-${index}`}
+                article={article}
+                isNew={newUrls.has(article.url)}
+                isUpdated={updatedUrls.has(article.url)}
+              />
             ))}
           </div>
         ) : !loading && (
@@ -254,8 +331,10 @@ export default function NewsGrid({ initialData }: NewsGridProps) {
         {/* Footer */}
         <footer className="mt-16 pt-8 border-t border-gray-200 text-center text-gray-600 text-sm">
           <p>
-            📰 Data sourced from ABC News • ⏰ Auto-refreshes daily at 6:00 AM
+            📰 Data sourced from {newsData?.data?.source || 'ABC News'}
+            {refreshSchedule && ` • ⏰ ${refreshSchedule}`}
             {newsData?.data?.fromCache && ' • 💾 Showing cached data'}
+            {newsData?.data?.isStale && !newsData.data.error && ' • ⏳ Fresh stories are loading in the background'}
           </p>
         </footer>
       </main>
@@ -0,0 +1,162 @@
+import type { Tool } from './ai-agents';
+import { scrapeArticle } from './article-scraper';
+import { getCacheStorage, type CacheStorage } from './cache-storage';
+import type { TextFetcher } from './http-fetcher';
+import { truncateForPrompt } from './prompt-budget';
+import { getAllowedDomains, isAllowedDomain } from './url-guard';
+
+// Token budget for an article returned to the model by fetch_article
+const ARTICLE_TOOL_TOKENS = 1500;
+const ARCHIVE_DEFAULT_RESULTS = 10;
+const ARCHIVE_MAX_RESULTS = 25;
+
+/**
+ * Parse the JSON arguments a tool with `parameters` receives
+ */
+function readArguments(input: string): Record<string, unknown> {
+  try {
+    const args = JSON.parse(input || '{}');
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    throw new Error('Tool arguments must be a JSON object');
+  }
+}
+
+// Web search tool (simulated with DuckDuckGo or similar)
+export function createWebSearchTool(): Tool {
+  return {
+    name: 'web_search',
+    description: 'Search the internet for information',
+    execute: async (query: string): Promise<string> => {
+      try {
+        const response = await fetch(
+          `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=5`,
+          {
+            headers: {
+              Accept: 'application/json',
+              'X-Subscription-Token': process.env.BRAVE_SEARCH_API_KEY || ''
+            }
+          }
+        );
+
+        if (!response.ok) {
+          console.log('Web search API not available, using mock data');
+          return `Mock search results for: ${query}`;
+        }
+
+        const data = await response.json();
+        return JSON.stringify(data, null, 2);
+      } catch (error) {
+        console.error('Web search error:', error);
+        return `Search results for: ${query} (mock data)`;
+      }
+    }
+  };
+}
+
+/**
+ * Fetch and extract another news article. Goes through the same polite, public-only
+ * fetcher as the narrator, and honours NARRATOR_ALLOWED_DOMAINS.
+ */
+export function createArticleFetchTool(options: { fetcher?: TextFetcher; allowedDomains?: string[] } = {}): Tool {
+  const allowedDomains = options.allowedDomains ?? getAllowedDomains();
+
+  return {
+    name: 'fetch_article',
+    description: 'Fetch a news article by URL and return its title, date and main text',
+    parameters: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', description: 'Full http(s) URL of the article' }
+      },
+      required: ['url']
+    },
+    execute: async (input: string): Promise<string> => {
+      const url = String(readArguments(input).url || '');
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        throw new Error(`Not a valid URL: ${url}`);
+      }
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error(`Only http and https URLs can be fetched: ${url}`);
+      }
+      if (allowedDomains && !isAllowedDomain(parsed.hostname, allowedDomains)) {
+        throw new Error(`${parsed.hostname} is not an allowed news domain`);
+      }
+
+      const article = await scrapeArticle(url, { fetcher: options.fetcher, allowedDomains });
+      if (!article.success) {
+        throw new Error(article.error || `Could not extract an article from ${url}`);
+      }
+
+      const header = [
+        `Title: ${article.title}`,
+        article.siteName && `Publication: ${article.siteName}`,
+        article.publishedAt && `Published: ${article.publishedAt}`
+      ].filter(Boolean).join('\n');
+
+      return `${header}\n\n${truncateForPrompt(article.blocks?.length ? article.blocks : article.content, ARTICLE_TOOL_TOKENS)}`;
+    }
+  };
+}
+
+/**
+ * Search the news archive for earlier coverage by keyword, optionally within a
+ * date range or category
+ */
+export function createArchiveSearchTool(storage?: CacheStorage): Tool {
+  return {
+    name: 'search_archive',
+    description: 'Search previously scraped news headlines and summaries by keyword to find earlier coverage of a story',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Keywords to look for in headlines and summaries' },
+        from: { type: 'string', description: 'Earliest date, YYYY-MM-DD' },
+        to: { type: 'string', description: 'Latest date, YYYY-MM-DD' },
+        category: { type: 'string', description: 'Only this category, e.g. Politics' },
+        limit: { type: 'number', description: `Maximum results (default ${ARCHIVE_DEFAULT_RESULTS}, at most ${ARCHIVE_MAX_RESULTS})` }
+      },
+      required: ['query']
+    },
+    execute: async (input: string): Promise<string> => {
+      const args = readArguments(input);
+      const query = String(args.query || '').trim();
+      const words = query.toLowerCase().split(/\W+/).filter(word => word.length > 2);
+      if (words.length === 0) {
+        throw new Error('query needs at least one keyword');
+      }
+      const limit = Math.min(Math.max(Number(args.limit) || ARCHIVE_DEFAULT_RESULTS, 1), ARCHIVE_MAX_RESULTS);
+
+      const articles = await (storage || getCacheStorage()).queryArticles({
+        from: typeof args.from === 'string' ? args.from : undefined,
+        to: typeof args.to === 'string' ? args.to : undefined,
+        category: typeof args.category === 'string' ? args.category : undefined
+      });
+
+      // Rank by how many keywords appear, newest first among equals
+      const matches = articles
+        .map(article => {
+          const text = `${article.title} ${article.summary || ''}`.toLowerCase();
+          return { article, score: words.filter(word => text.includes(word)).length };
+        })
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score || b.article.firstSeenAt.localeCompare(a.article.firstSeenAt))
+        .slice(0, limit);
+
+      if (matches.length === 0) {
+        return `No archived articles match "${query}".`;
+      }
+
+      return matches
+        .map(({ article }) => [
+          `- ${article.firstSeenAt.slice(0, 10)} | ${article.category}${article.source ? ` | ${article.source}` : ''} | ${article.title}`,
+          `  ${article.url}`,
+          article.summary && `  ${article.summary}`
+        ].filter(Boolean).join('\n'))
+        .join('\n');
+    }
+  };
+}
@@ -1,26 +1,109 @@
-import OpenAI from "openai";
+import type { ScrapedArticle } from "./article-scraper";
+import { createArchiveSearchTool, createArticleFetchTool, createWebSearchTool } from "./agent-tools";
+import {
+  createLLMProvider,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMToolDefinition,
+} from "./llm-provider";
+import { personaRegistry, type NarratorPersona } from "./personas";
+import { truncateForPrompt } from "./prompt-budget";
+
+export { createArchiveSearchTool, createArticleFetchTool, createWebSearchTool };
+
+// Token budget for article text embedded in each task prompt
+const ARTICLE_PROMPT_TOKENS = 1200;
+
+// Token budget for a single tool result fed back to the model
+const TOOL_RESULT_TOKENS = 2000;
 
 // Define types for AI agent framework
 export interface Tool {
   name: string;
   description: string;
+  /** JSON schema for the arguments; tools without one take a single `input` string */
+  parameters?: Record<string, unknown>;
+  /** Receives the `input` string, or the raw JSON arguments when `parameters` is set */
   execute: (input: string) => Promise<string>;
 }
 
+// One tool call made while an agent worked on a task
+export interface ToolCallRecord {
+  /** Model round the call was made in, starting at 1 */
+  iteration: number;
+  tool: string;
+  /** Arguments as the model sent them (JSON) */
+  arguments: string;
+  output: string;
+  error?: string;
+  durationMs: number;
+}
+
 export interface AgentConfig {
   role: string;
   goal: string;
   backstory: string;
   tools?: Tool[];
+  /** Model for this agent; the provider's default when omitted */
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Model rounds that may call tools before a plain answer is required (default 5) */
+  maxToolIterations?: number;
 }
 
+export interface AgentRunOptions {
+  /** Filled with the tool calls made during the run */
+  transcript?: ToolCallRecord[];
+  /** Receives the answer text as it is generated */
+  onToken?: (text: string) => void;
+  /** Called after each tool call */
+  onToolCall?: (record: ToolCallRecord) => void;
+}
+
+// Model settings that can be tuned per agent
+export type AgentModelSettings = Pick<AgentConfig, "model" | "maxTokens" | "temperature" | "maxToolIterations">;
+
 export interface TaskConfig {
+  /** Used in logs, errors and results; defaults to its position in the crew */
+  name?: string;
   description: string;
   expected_output: string;
   agent: Agent;
+  /** Tasks whose output this one needs; they always run first */
   context?: Task[];
 }
 
+// Outcome of one task in a crew run
+export interface TaskResult {
+  name: string;
+  output: string;
+  toolCalls: ToolCallRecord[];
+  /** Names of the context tasks it waited for */
+  dependsOn: string[];
+  startedAt: string;
+  durationMs: number;
+}
+
+// Progress reported while a crew runs
+export type CrewEvent =
+  | { type: "task-start"; task: string; dependsOn: string[] }
+  | { type: "task-complete"; task: string; durationMs: number }
+  | { type: "task-error"; task: string; error: string }
+  | { type: "tool-call"; task: string; tool: string; arguments: string; error?: string; durationMs: number }
+  /** Answer text of the final task as it is generated */
+  | { type: "token"; task: string; text: string };
+
+export interface CrewResult {
+  /** Output of the last task in the crew's task list */
+  finalOutput: string;
+  /** Every task's result, in the crew's task order */
+  tasks: TaskResult[];
+  durationMs: number;
+}
+
 // Official Crew AI would look like this (Python):
 // from crewai import Agent, Task, Crew
 //
@@ -50,17 +133,32 @@ export class Agent {
   goal: string;
   backstory: string;
   tools: Tool[];
-  private client: OpenAI;
+  model?: string;
+  maxTokens: number;
+  temperature?: number;
+  maxToolIterations: number;
+  private provider: LLMProvider;
 
-  constructor(config: AgentConfig, client: OpenAI) {
+  constructor(config: AgentConfig, provider: LLMProvider) {
     this.role = config.role;
     this.goal = config.goal;
     this.backstory = config.backstory;
     this.tools = config.tools || [];
-    this.client = client;
+    this.model = config.model;
+    this.maxTokens = config.maxTokens ?? 2000;
+    this.temperature = config.temperature;
+    this.maxToolIterations = config.maxToolIterations ?? 5;
+    this.provider = provider;
   }
 
-  async execute(task_description: string, context: string = ""): Promise<string> {
+  /**
+   * Run a task. When the agent has tools, the model may call them: each call is
+   * executed, recorded in `transcript` and its result fed back, until the model
+   * answers or `maxToolIterations` rounds have used tools. With `onToken`, rounds
+   * that can't call tools are streamed.
+   */
+  async execute(task_description: string, context: string = "", options: AgentRunOptions = {}): Promise<string> {
+    const { transcript = [], onToken, onToolCall } = options;
     const systemPrompt = `You are ${this.role}.
 
 Your goal is: ${this.goal}
@@ -76,148 +174,354 @@ Please complete the following task:`;
     console.log(`\n[Agent: ${this.role}]`);
     console.log(`Task: ${task_description}`);
 
+    const messages: LLMMessage[] = [
+      {
+        role: "system",
+        content: systemPrompt,
+      },
+      {
+        role: "user",
+        content: userMessage,
+      },
+    ];
+    const tools = this.tools.map(toToolDefinition);
+
     try {
-      const response = await this.client.chat.completions.create({
-        model: "gpt-4o",
-        max_tokens: 2000,
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt,
-          },
-          {
-            role: "user",
-            content: userMessage,
-          },
-        ],
-      });
+      for (let iteration = 1; ; iteration++) {
+        // Past the cap the tools stay visible (earlier calls refer to them) but can't be used
+        const toolsAllowed = tools.length > 0 && iteration <= this.maxToolIterations;
+        const request: LLMRequest = {
+          model: this.model,
+          maxTokens: this.maxTokens,
+          temperature: this.temperature,
+          messages,
+          ...(tools.length > 0 && { tools, toolChoice: toolsAllowed ? "auto" as const : "none" as const }),
+        };
+        const response = onToken && !toolsAllowed
+          ? await this.streamResponse(request, onToken)
+          : await this.provider.complete(request);
+
+        if (!response.toolCalls?.length || !toolsAllowed) {
+          const result = response.content;
+          console.log(`Result length: ${result.length} characters (${this.provider.name}/${response.model})`);
+          return result;
+        }
 
-      const result = response.choices[0]?.message?.content || "";
-      console.log(`Result length: ${result.length} characters`);
-      return result;
+        messages.push({ role: "assistant", content: response.content, toolCalls: response.toolCalls });
+        for (const call of response.toolCalls) {
+          const record = await this.runTool(call.name, call.arguments, iteration);
+          transcript.push(record);
+          onToolCall?.(record);
+          messages.push({
+            role: "tool",
+            toolCallId: call.id,
+            content: record.error ? `Error: ${record.error}` : record.output,
+          });
+        }
+      }
     } catch (error) {
       console.error(`Error executing agent task: ${error}`);
       throw error;
     }
   }
+
+  // Providers without streaming hand over the whole answer at once
+  private async streamResponse(request: LLMRequest, onToken: (text: string) => void): Promise<LLMResponse> {
+    if (this.provider.stream) {
+      return this.provider.stream(request, onToken);
+    }
+    const response = await this.provider.complete(request);
+    if (response.content) onToken(response.content);
+    return response;
+  }
+
+  // Failures are reported back to the model rather than aborting the task
+  private async runTool(name: string, args: string, iteration: number): Promise<ToolCallRecord> {
+    const startedAt = Date.now();
+    const tool = this.tools.find((t) => t.name === name);
+    console.log(`🔧 Tool call: ${name} ${args}`);
+
+    try {
+      if (!tool) {
+        throw new Error(`Unknown tool "${name}"`);
+      }
+      const output = await tool.execute(tool.parameters ? args : readInputArgument(args));
+      return { iteration, tool: name, arguments: args, output: truncateForPrompt(output, TOOL_RESULT_TOKENS), durationMs: Date.now() - startedAt };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Tool ${name} failed: ${message}`);
+      return { iteration, tool: name, arguments: args, output: "", error: message, durationMs: Date.now() - startedAt };
+    }
+  }
+}
+
+function toToolDefinition(tool: Tool): LLMToolDefinition {
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters || {
+      type: "object",
+      properties: { input: { type: "string", description: tool.description } },
+      required: ["input"],
+    },
+  };
+}
+
+// Tools without a schema get the `input` string the model passed
+function readInputArgument(args: string): string {
+  try {
+    const parsed = JSON.parse(args || "{}");
+    return typeof parsed?.input === "string" ? parsed.input : args;
+  } catch {
+    return args;
+  }
 }
 
 // Task class
 export class Task {
+  name: string;
   description: string;
   expected_output: string;
   agent: Agent;
   context: Task[];
   output: string = "";
+  /** Tool calls made during the last run */
+  toolCalls: ToolCallRecord[] = [];
 
   constructor(config: TaskConfig) {
+    this.name = config.name || "";
     this.description = config.description;
     this.expected_output = config.expected_output;
     this.agent = config.agent;
     this.context = config.context || [];
   }
 
-  async execute(): Promise<string> {
+  async execute(options: Omit<AgentRunOptions, "transcript"> = {}): Promise<string> {
     const contextStr = this.context
       .map((t) => `Previous task result: ${t.output}`)
       .join("\n");
 
-    this.output = await this.agent.execute(this.description, contextStr);
+    this.toolCalls = [];
+    this.output = await this.agent.execute(this.description, contextStr, { ...options, transcript: this.toolCalls });
     return this.output;
   }
 }
 
-// Crew class
+// Crew class: runs tasks as a dependency graph built from Task.context, so
+// tasks that don't depend on each other run at the same time
 export class Crew {
   agents: Agent[];
   tasks: Task[];
   verbose: boolean;
+  maxConcurrency: number;
 
   constructor(config: {
     agents: Agent[];
     tasks: Task[];
     verbose?: boolean;
+    /** Tasks running at once (default: no limit) */
+    maxConcurrency?: number;
   }) {
     this.agents = config.agents;
     this.tasks = config.tasks;
     this.verbose = config.verbose ?? true;
+    this.maxConcurrency = Math.max(1, config.maxConcurrency ?? Infinity);
   }
 
-  async kickoff(): Promise<string> {
+  /**
+   * Check that every context task belongs to the crew and that dependencies don't
+   * form a cycle. Throws an Error naming the offending tasks.
+   */
+  validate(): void {
+    const state = new Map<Task, "visiting" | "done">();
+
+    const visit = (task: Task, path: Task[]) => {
+      if (state.get(task) === "done") return;
+      if (state.get(task) === "visiting") {
+        const cycle = [...path.slice(path.indexOf(task)), task];
+        throw new Error(`Task dependency cycle: ${cycle.map((t) => this.taskName(t)).join(" → ")}`);
+      }
+
+      state.set(task, "visiting");
+      for (const dependency of task.context) {
+        if (!this.tasks.includes(dependency)) {
+          throw new Error(`Task "${this.taskName(task)}" depends on a task that is not part of the crew`);
+        }
+        visit(dependency, [...path, task]);
+      }
+      state.set(task, "done");
+    };
+
+    this.tasks.forEach((task) => visit(task, []));
+  }
+
+  /**
+   * Run every task once its context is done. `onEvent` hears each task start,
+   * finish and tool call, and the final task's answer as it is generated.
+   */
+  async kickoff(options: { onEvent?: (event: CrewEvent) => void } = {}): Promise<CrewResult> {
+    this.validate();
+
     console.log("\n🚀 AI Agent Process Starting");
     console.log("=".repeat(50));
 
-    let finalOutput = "";
+    const startedAt = Date.now();
+    const results = new Map<Task, TaskResult>();
+    const started = new Set<Task>();
+    const running = new Set<Promise<void>>();
+    let failure: unknown = null;
+
+    // Start every task whose context is complete, up to the concurrency limit
+    const startReady = () => {
+      for (const task of this.tasks) {
+        if (failure || running.size >= this.maxConcurrency) return;
+        if (started.has(task) || !task.context.every((dependency) => results.has(dependency))) continue;
+
+        started.add(task);
+        const run: Promise<void> = this.runTask(task, options.onEvent)
+          .then((result) => {
+            results.set(task, result);
+          })
+          .catch((error) => {
+            if (!failure) failure = error;
+          })
+          .finally(() => {
+            running.delete(run);
+          });
+        running.add(run);
+      }
+    };
 
-    for (const task of this.tasks) {
-      try {
-        const result = await task.execute();
-        finalOutput = result;
+    startReady();
+    while (running.size > 0) {
+      await Promise.race(running);
+      startReady();
+    }
 
-        if (this.verbose) {
-          console.log(`✅ Task completed`);
-          console.log("-".repeat(50));
-        }
-      } catch (error) {
-        console.error(`❌ Task failed: ${error}`);
-        throw error;
-      }
+    // Tasks already running finish, but nothing new starts after a failure
+    if (failure) {
+      throw failure;
     }
 
-    console.log("\n🎉 AI Agent Process Complete");
+    const durationMs = Date.now() - startedAt;
+    console.log(`\n🎉 AI Agent Process Complete in ${(durationMs / 1000).toFixed(1)}s`);
     console.log("=".repeat(50));
-    return finalOutput;
+
+    const tasks = this.tasks.map((task) => results.get(task) as TaskResult);
+    return {
+      finalOutput: tasks.length > 0 ? tasks[tasks.length - 1].output : "",
+      tasks,
+      durationMs,
+    };
   }
-}
 
-// Web search tool (simulated with DuckDuckGo or similar)
-export async function createWebSearchTool(): Promise<Tool> {
-  return {
-    name: "web_search",
-    description: "Search the internet for information",
-    execute: async (query: string): Promise<string> => {
-      try {
-        const response = await fetch(
-          `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=5`,
-          {
-            headers: {
-              Accept: "application/json",
-              "X-Subscription-Token": process.env.BRAVE_SEARCH_API_KEY || "",
-            },
-          }
-        );
-
-        if (!response.ok) {
-          console.log("Web search API not available, using mock data");
-          return `Mock search results for: ${query}`;
-        }
+  private async runTask(task: Task, onEvent?: (event: CrewEvent) => void): Promise<TaskResult> {
+    const name = this.taskName(task);
+    const dependsOn = task.context.map((dependency) => this.taskName(dependency));
+    const isFinal = task === this.tasks[this.tasks.length - 1];
+    const startedAt = new Date();
+
+    onEvent?.({ type: "task-start", task: name, dependsOn });
 
-        const data = await response.json();
-        return JSON.stringify(data, null, 2);
-      } catch (error) {
-        console.error("Web search error:", error);
-        return `Search results for: ${query} (mock data)`;
+    try {
+      const output = await task.execute({
+        ...(onEvent && isFinal && { onToken: (text: string) => onEvent({ type: "token", task: name, text }) }),
+        ...(onEvent && {
+          onToolCall: (record: ToolCallRecord) => onEvent({
+            type: "tool-call",
+            task: name,
+            tool: record.tool,
+            arguments: record.arguments,
+            ...(record.error && { error: record.error }),
+            durationMs: record.durationMs,
+          }),
+        }),
+      });
+      const durationMs = Date.now() - startedAt.getTime();
+      onEvent?.({ type: "task-complete", task: name, durationMs });
+
+      if (this.verbose) {
+        console.log(`✅ Task "${name}" completed in ${(durationMs / 1000).toFixed(1)}s`);
+        console.log("-".repeat(50));
       }
-    },
+
+      return {
+        name,
+        output,
+        toolCalls: task.toolCalls,
+        dependsOn,
+        startedAt: startedAt.toISOString(),
+        durationMs,
+      };
+    } catch (error) {
+      console.error(`❌ Task "${name}" failed: ${error}`);
+      onEvent?.({ type: "task-error", task: name, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  private taskName(task: Task): string {
+    const index = this.tasks.indexOf(task);
+    return task.name || (index === -1 ? "unnamed task" : `task ${index + 1}`);
+  }
+}
+
+export interface NarratorCrewOptions {
+  /** Defaults to the provider named by LLM_PROVIDER */
+  provider?: LLMProvider;
+  /** Research tools for the historian; defaults to defaultResearchTools() */
+  tools?: Tool[];
+  /** Voice of the storyteller; defaults to the default persona */
+  persona?: NarratorPersona;
+  /** Model settings per agent */
+  agents?: {
+    history?: AgentModelSettings;
+    summary?: AgentModelSettings;
+    storyteller?: AgentModelSettings;
   };
 }
 
-// Initialize AI agents with GPT-4o
-export function initializeCrew(newsLink: string, articleContent?: string, articleTitle?: string): {
+/**
+ * Article fetch and archive search, plus web search when BRAVE_SEARCH_API_KEY is set
+ */
+export function defaultResearchTools(): Tool[] {
+  return [
+    createArticleFetchTool(),
+    createArchiveSearchTool(),
+    ...(process.env.BRAVE_SEARCH_API_KEY ? [createWebSearchTool()] : []),
+  ];
+}
+
+// Initialize the narrator agents on the configured LLM provider
+export function initializeCrew(
+  newsLink: string,
+  articleContent?: string,
+  articleTitle?: string,
+  articleMetadata?: Pick<ScrapedArticle, "authors" | "publishedAt" | "section" | "siteName" | "blocks">,
+  options: NarratorCrewOptions = {}
+): {
   historyAgent: Agent;
   summaryAgent: Agent;
-  roaldDahlAgent: Agent;
+  storytellerAgent: Agent;
   historyTask: Task;
   summaryTask: Task;
-  roaldDahlTask: Task;
+  storytellerTask: Task;
   crew: Crew;
 } {
-  const client = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
+  const provider = options.provider || createLLMProvider();
+
+  // Truncate article content for prompts at paragraph boundaries to stay within the token budget
+  const truncatedContent = articleMetadata?.blocks?.length
+    ? truncateForPrompt(articleMetadata.blocks, ARTICLE_PROMPT_TOKENS)
+    : articleContent ? truncateForPrompt(articleContent, ARTICLE_PROMPT_TOKENS) : 'No content available';
 
-  // Truncate article content for prompts (keep first 2000 characters to avoid token limits)
-  const truncatedContent = articleContent ? articleContent.substring(0, 2000) + (articleContent.length > 2000 ? '...' : '') : 'No content available';
+  // Byline, date and section help the agents place the article in time
+  const articleDetails = [
+    articleMetadata?.siteName && `Publication: ${articleMetadata.siteName}`,
+    articleMetadata?.authors?.length && `Written by: ${articleMetadata.authors.join(", ")}`,
+    articleMetadata?.publishedAt && `Published: ${articleMetadata.publishedAt}`,
+    articleMetadata?.section && `Section: ${articleMetadata.section}`,
+  ].filter(Boolean).join("\n");
 
   // Agent 1: History Context Agent
   const historyAgent = new Agent(
@@ -225,14 +529,21 @@ export function initializeCrew(newsLink: string, articleContent?: string, articl
       role: "You are an expert historian with access to extensive knowledge of world events and historical context.",
       goal: `Analyze the provided news article content and find relevant historical context that helps understand the current news better.`,
       backstory: "You are an experienced historian with deep knowledge of world events and their historical context. You excel at connecting current events to their historical roots.",
-      tools: [],
+      tools: options.tools ?? defaultResearchTools(),
+      ...options.agents?.history,
     },
-    client
+    provider
   );
 
+  const researchNote = historyAgent.tools.length > 0
+    ? `\n\nBefore answering, use your tools (${historyAgent.tools.map((tool) => tool.name).join(", ")}) to check earlier coverage and related articles rather than relying on memory alone.`
+    : "";
+
   // Task 1: History Context Prep Task
   const historyTask = new Task({
+    name: "history",
     description: `Here is the news article content: "${truncatedContent}". Article title: "${articleTitle || 'News Article'}"
+${articleDetails}
 
 Please analyze this news article and provide accurate historical context that helps readers understand the current situation better. Focus on:
 
@@ -241,7 +552,7 @@ Please analyze this news article and provide accurate historical context that he
 3. What similar situations have happened before?
 4. Key dates, policies, or events that are directly relevant to understanding this news
 
-Provide specific, factual historical information that directly relates to the events in this article. Do not make up history - stick to well-known, documented events and context.`,
+Provide specific, factual historical information that directly relates to the events in this article. Do not make up history - stick to well-known, documented events and context.${researchNote}`,
     expected_output: `A clear, factual summary of the relevant historical context that directly explains the background and evolution of the situation described in the news article.`,
     agent: historyAgent,
   });
@@ -252,14 +563,17 @@ Provide specific, factual historical information that directly relates to the ev
       role: `You are an objective journalist who presents news in a completely neutral and factual manner.`,
       goal: `Summarize news articles using neutral language, presenting facts without bias, opinion, or emotional language.`,
       backstory: `You are a professional journalist who understands how word choice can influence perception. You prioritize factual accuracy and neutrality above all else.`,
-      tools: []
+      tools: [],
+      ...options.agents?.summary,
     },
-    client
+    provider
   );
 
   // Task 2: Neutral News Summary
   const summaryTask = new Task({
+    name: "summary",
     description: `Here is the news article content: "${truncatedContent}". Article title: "${articleTitle || 'News Article'}"
+${articleDetails}
 
 Please provide a detailed but neutral summary of this news article. Include:
 
@@ -275,53 +589,58 @@ Present only facts without any bias, opinion, interpretation, or speculation. Be
     context: []
   });
 
-  // Agent 3: Roald Dahl Narration Agent
-  const roaldDahlAgent = new Agent(
+  // Agent 3: Storyteller, in the voice of the chosen persona
+  const persona = options.persona || personaRegistry.get();
+  const storytellerAgent = new Agent(
     {
-      role: "You are Roald Dahl, the beloved children's book author known for your whimsical and imaginative storytelling, but you always stick to the facts and reality of the news.",
-      goal: `Transform news articles into engaging, child-friendly stories that explain complex topics in simple, entertaining ways, but always remain truthful to the actual events and outcomes.`,
-      backstory: `You are Roald Dahl, famous for books like Charlie and the Chocolate Factory and Matilda. You have a special talent for making complicated things fun and easy to understand, especially for children. You never invent happy endings or successes that didn't happen - you tell stories that are rooted in reality but made engaging for kids.`,
+      role: persona.role,
+      goal: persona.goal,
+      backstory: persona.backstory,
       tools: [],
+      ...(persona.temperature !== undefined && { temperature: persona.temperature }),
+      ...options.agents?.storyteller,
     },
-    client
+    provider
   );
 
-  // Task 3: Roald Dahl Storytelling Task
-  const roaldDahlTask = new Task({
-    description: `You are Roald Dahl. Here is a news article that needs to be turned into an engaging story for children:
+  // Shared accuracy rules come first so no voice can talk its way past them
+  const storyRules = [
+    "Stick to the facts from the article - do not invent successes, happy endings, or outcomes that didn't happen",
+    "Use the historical context provided to give background, but don't change the actual news events",
+    "Make it engaging and interesting, but truthful - if something bad happened, don't pretend it was good",
+    ...persona.instructions,
+  ];
+
+  // Task 3: Storytelling Task
+  const storytellerTask = new Task({
+    name: "story",
+    description: `${persona.taskIntro}
 
 Article Title: "${articleTitle || 'News Article'}"
+${articleDetails}
 Article Content: "${truncatedContent}"
 
 IMPORTANT RULES:
-1. Stick to the facts from the article - do not invent successes, happy endings, or outcomes that didn't happen
-2. Use the historical context provided to give background, but don't change the actual news events
-3. Create a story that explains what really happened, using simple words that even a 5-year-old can understand
-4. Make it engaging and interesting, but truthful - if something bad happened, don't pretend it was good
-5. Use fictional characters to represent real people/groups, but the events must match reality
-
-For example: If the news is about food banks helping during SNAP cuts, tell a story about real families facing real challenges, not about everyone getting rich or problems magically disappearing.
-
-If this is international news, include a "History" section that explains the real background in a simple way.`,
-    expected_output: `An engaging, child-friendly story that accurately explains the news article using simple language, fictional characters for relatability, but sticking to the real events and outcomes from the article.`,
-    agent: roaldDahlAgent,
+${storyRules.map((rule, index) => `${index + 1}. ${rule}`).join("\n")}`,
+    expected_output: persona.expectedOutput,
+    agent: storytellerAgent,
     context: [historyTask, summaryTask],
   });
 
   // Create Crew
   const crew = new Crew({
-    agents: [historyAgent, summaryAgent, roaldDahlAgent],
-    tasks: [historyTask, summaryTask, roaldDahlTask],
+    agents: [historyAgent, summaryAgent, storytellerAgent],
+    tasks: [historyTask, summaryTask, storytellerTask],
     verbose: true,
   });
 
   return {
     historyAgent,
     summaryAgent,
-    roaldDahlAgent,
+    storytellerAgent,
     historyTask,
     summaryTask,
-    roaldDahlTask,
+    storytellerTask,
     crew,
   };
 }
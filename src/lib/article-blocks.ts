@@ -0,0 +1,97 @@
+import * as cheerio from 'cheerio';
+
+export type ArticleBlockType = 'paragraph' | 'heading' | 'quote' | 'list';
+
+/**
+ * A structural block of an article body, in document order
+ */
+export interface ArticleBlock {
+  type: ArticleBlockType;
+  text: string;
+  /** Heading level (2-6) for headings */
+  level?: number;
+  /** List items for lists */
+  items?: string[];
+  ordered?: boolean;
+}
+
+export const BLOCK_SELECTOR = 'p, h2, h3, h4, h5, h6, blockquote, ul, ol';
+
+/**
+ * Extract ordered paragraph/heading/quote/list blocks from a content root.
+ * Whitespace is normalised inside each block but Unicode is left intact.
+ */
+export function extractBlocks($: cheerio.Root, $root: cheerio.Cheerio): ArticleBlock[] {
+  const blocks: ArticleBlock[] = [];
+
+  $root.find(BLOCK_SELECTOR).each((_, element) => {
+    const $element = $(element);
+
+    // Skip elements nested in a block we already captured (p inside blockquote, li > p, ...)
+    if ($element.parentsUntil($root).filter(BLOCK_SELECTOR).length > 0) {
+      return;
+    }
+
+    const block = elementToBlock($, element);
+    if (block) blocks.push(block);
+  });
+
+  return blocks;
+}
+
+/**
+ * Convert a single block-level element (p, h2-h6, blockquote, ul, ol) into a block
+ */
+export function elementToBlock($: cheerio.Root, element: cheerio.Element): ArticleBlock | null {
+  const $element = $(element);
+  const tagName = (element as cheerio.TagElement).tagName?.toLowerCase();
+
+  if (tagName === 'ul' || tagName === 'ol') {
+    const items = $element.children('li').map((_, li) => cleanText($(li).text())).get().filter(Boolean) as string[];
+    return items.length > 0
+      ? { type: 'list', text: items.map(item => `• ${item}`).join('\n'), items, ordered: tagName === 'ol' }
+      : null;
+  }
+
+  const text = cleanText($element.text());
+  if (!text) return null;
+
+  if (tagName === 'blockquote') {
+    return { type: 'quote', text };
+  }
+  if (/^h[2-6]$/.test(tagName)) {
+    return { type: 'heading', text, level: Number(tagName[1]) };
+  }
+  return { type: 'paragraph', text };
+}
+
+/**
+ * Split plain text into paragraph blocks on blank lines
+ */
+export function textToBlocks(text: string): ArticleBlock[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(cleanText)
+    .filter(Boolean)
+    .map(paragraph => ({ type: 'paragraph' as const, text: paragraph }));
+}
+
+/**
+ * Render blocks as plain text with blank lines between blocks
+ */
+export function blocksToText(blocks: ArticleBlock[]): string {
+  return blocks.map(block => block.text).join('\n\n');
+}
+
+/**
+ * Collapse whitespace and drop invisible characters, keeping accents, curly quotes
+ * and non-Latin scripts intact
+ */
+export function cleanText(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(/[\u200B-\u200D\uFEFF\u00AD]/g, '') // Zero-width characters and soft hyphens
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '') // Control characters
+    .replace(/\s+/g, ' ')
+    .trim();
+}
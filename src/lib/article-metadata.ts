@@ -0,0 +1,206 @@
+import * as cheerio from 'cheerio';
+
+export interface ArticleMetadata {
+  headline?: string;
+  authors: string[];
+  publishedAt?: string;
+  modifiedAt?: string;
+  section?: string;
+  canonicalUrl?: string;
+  imageUrl?: string;
+  keywords: string[];
+  wordCount?: number;
+  siteName?: string;
+}
+
+const ARTICLE_TYPES = ['NewsArticle', 'Article', 'ReportageNewsArticle', 'AnalysisNewsArticle', 'BlogPosting', 'LiveBlogPosting', 'OpinionNewsArticle', 'ReviewNewsArticle'];
+
+/**
+ * Extract structured article metadata from JSON-LD, OpenGraph and <meta> tags,
+ * falling back to common byline/date selectors.
+ * Must run before <script> tags are stripped from the document.
+ */
+export function extractArticleMetadata($: cheerio.Root, url: string): ArticleMetadata {
+  const jsonLd = findJsonLdArticle($);
+  const meta = (selector: string) => $(selector).first().attr('content')?.trim() || undefined;
+  const metaAll = (selector: string) => $(selector).map((_, el) => $(el).attr('content')?.trim() || '').get().filter(Boolean) as string[];
+
+  // Use the first source that names anyone, in order of reliability
+  const authorSources = [
+    () => toNames(jsonLd?.author),
+    () => metaAll('meta[property="article:author"]').filter(value => !value.startsWith('http')),
+    () => splitByline(meta('meta[name="author"]') || meta('meta[name="byl"]') || ''),
+    () => splitByline(findBylineText($))
+  ];
+  let authors: string[] = [];
+  for (const getAuthors of authorSources) {
+    authors = uniqueValues(getAuthors());
+    if (authors.length > 0) break;
+  }
+
+  const keywords = uniqueValues([
+    ...toList(jsonLd?.keywords),
+    ...metaAll('meta[property="article:tag"]'),
+    ...toList(meta('meta[name="news_keywords"]') || meta('meta[name="keywords"]'))
+  ]);
+
+  const canonicalUrl = toUrl(jsonLd?.mainEntityOfPage) || asString(jsonLd?.url)
+    || $('link[rel="canonical"]').first().attr('href')
+    || meta('meta[property="og:url"]');
+
+  const wordCount = Number(jsonLd?.wordCount);
+
+  return {
+    headline: asString(jsonLd?.headline),
+    authors,
+    publishedAt: normalizeDate(
+      asString(jsonLd?.datePublished)
+      || meta('meta[property="article:published_time"]')
+      || meta('meta[name="parsely-pub-date"]')
+      || meta('meta[itemprop="datePublished"]')
+      || $('time[datetime]').first().attr('datetime')
+    ),
+    modifiedAt: normalizeDate(
+      asString(jsonLd?.dateModified)
+      || meta('meta[property="article:modified_time"]')
+      || meta('meta[property="og:updated_time"]')
+    ),
+    section: toList(jsonLd?.articleSection)[0] || meta('meta[property="article:section"]'),
+    canonicalUrl: canonicalUrl ? resolveUrl(canonicalUrl, url) : undefined,
+    imageUrl: resolveUrl(toImageUrl(jsonLd?.image) || meta('meta[property="og:image"]') || meta('meta[name="twitter:image"]') || '', url) || undefined,
+    keywords,
+    wordCount: Number.isFinite(wordCount) && wordCount > 0 ? wordCount : undefined,
+    siteName: meta('meta[property="og:site_name"]') || toNames(jsonLd?.publisher)[0]
+  };
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+/**
+ * Find the first JSON-LD node describing an article, looking through arrays and @graph
+ */
+function findJsonLdArticle($: cheerio.Root): JsonLdNode | undefined {
+  const nodes: JsonLdNode[] = [];
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      const parsed: unknown = JSON.parse($(el).contents().text());
+      collectNodes(parsed, nodes);
+    } catch {
+      // Ignore malformed JSON-LD blocks
+    }
+  });
+
+  return nodes.find(node => {
+    const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+    return types.some(type => typeof type === 'string' && ARTICLE_TYPES.includes(type));
+  });
+}
+
+function collectNodes(value: unknown, nodes: JsonLdNode[]): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectNodes(item, nodes));
+  } else if (isRecord(value)) {
+    nodes.push(value);
+    if (value['@graph']) {
+      collectNodes(value['@graph'], nodes);
+    }
+  }
+}
+
+function isRecord(value: unknown): value is JsonLdNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Byline text from common byline selectors
+ */
+function findBylineText($: cheerio.Root): string {
+  const selectors = ['[data-testid="prism-byline"]', '[rel="author"]', '.byline__name', '.byline', '[class*="byline"]', '.author-name', '.author'];
+  for (const selector of selectors) {
+    const text = $(selector).first().text().replace(/\s+/g, ' ').trim();
+    if (text && text.length < 150) return text;
+  }
+  return '';
+}
+
+/**
+ * Split "By Jane Doe and John Smith, ABC News" into individual names
+ */
+function splitByline(byline: string): string[] {
+  return byline
+    .replace(/^by\s+/i, '')
+    .split(/\s*(?:,|\band\b|&|\|)\s*/i)
+    .map(name => name.trim())
+    .filter(name => name.length > 1 && !/news$|press$|staff$/i.test(name));
+}
+
+function toNames(value: unknown): string[] {
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  if (Array.isArray(value)) return value.flatMap(toNames);
+  if (isRecord(value)) return toNames(value.name);
+  return [];
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(toList);
+  if (typeof value === 'string') return value.split(',').map(item => item.trim()).filter(Boolean);
+  return [];
+}
+
+/**
+ * URL from a string or a node's @id/url, e.g. mainEntityOfPage: { "@id": "..." }
+ */
+function toUrl(value: unknown): string | undefined {
+  if (typeof value === 'string') return asString(value);
+  if (Array.isArray(value)) return firstDefined(value, toUrl);
+  if (isRecord(value)) return asString(value['@id']) || asString(value.url);
+  return undefined;
+}
+
+/**
+ * Image URL from a string, an ImageObject (url or contentUrl) or a list of either
+ */
+function toImageUrl(value: unknown): string | undefined {
+  if (typeof value === 'string') return asString(value);
+  if (Array.isArray(value)) return firstDefined(value, toImageUrl);
+  if (isRecord(value)) return asString(value.url) || asString(value.contentUrl);
+  return undefined;
+}
+
+function firstDefined(values: unknown[], pick: (value: unknown) => string | undefined): string | undefined {
+  for (const value of values) {
+    const picked = pick(value);
+    if (picked) return picked;
+  }
+  return undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function uniqueValues(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function resolveUrl(value: string, base: string): string {
+  if (!value) return '';
+  try {
+    return new URL(value, base).toString();
+  } catch {
+    return value;
+  }
+}
+
+function normalizeDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
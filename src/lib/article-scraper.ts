@@ -1,38 +1,64 @@
-import axios from 'axios';
 import * as cheerio from 'cheerio';
+import { extractArticleMetadata } from './article-metadata';
+import { extractBlocks, textToBlocks, blocksToText, type ArticleBlock } from './article-blocks';
+import { findMainContent } from './content-scoring';
+import { getHttpFetcher, type TextFetcher } from './http-fetcher';
+
+/**
+ * How the article body was located: a known site selector, readability-style
+ * content scoring, the page's main content area, or every paragraph on the page
+ */
+export type ExtractionStrategy = 'selector' | 'readability' | 'main-content' | 'all-paragraphs';
+
+// Upper bound on pages followed for split articles
+const DEFAULT_MAX_PAGES = 5;
+
+// Article pages larger than this are refused
+const MAX_ARTICLE_BYTES = 5 * 1024 * 1024;
+
+// Whole link text of a pagination link: "Next", "Next page ›", "Continue reading"
+const NEXT_PAGE_TEXT = /^(next( page)?|continue reading)\s*[›»>]?$/i;
 
 export interface ScrapedArticle {
   title: string;
   content: string;
+  blocks?: ArticleBlock[];
+  extractionStrategy?: ExtractionStrategy;
+  /** Number of pages stitched into the body */
+  pageCount?: number;
   url: string;
   success: boolean;
   error?: string;
+  authors?: string[];
+  publishedAt?: string;
+  modifiedAt?: string;
+  section?: string;
+  canonicalUrl?: string;
+  imageUrl?: string;
+  keywords?: string[];
+  wordCount?: number;
+  siteName?: string;
 }
 
 /**
  * Scrape article content from a news URL
  */
-export async function scrapeArticle(url: string): Promise<ScrapedArticle> {
+export async function scrapeArticle(
+  url: string,
+  options: { followPagination?: boolean; maxPages?: number; fetcher?: TextFetcher; allowedDomains?: string[] } = {}
+): Promise<ScrapedArticle> {
+  const { followPagination = true, maxPages = DEFAULT_MAX_PAGES, fetcher = getHttpFetcher(), allowedDomains } = options;
+
   try {
     console.log(`🔍 Scraping article from: ${url}`);
 
-    // Set a reasonable timeout and user agent
-    const response = await axios.get(url, {
-      timeout: 15000,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1',
-      }
-    });
+    const $ = cheerio.load(await fetchArticleHtml(url, fetcher, allowedDomains));
 
-    const $ = cheerio.load(response.data);
+    // Structured metadata (JSON-LD, OpenGraph, meta tags) - read before scripts are stripped
+    const metadata = extractArticleMetadata($, url);
 
-    // Try to extract title - ABC News specific selectors first
-    let title = '';
+    // Try to extract title - JSON-LD headline, then ABC News specific selectors
+    let title = metadata.headline || '';
     const titleSelectors = [
       'h1[data-testid="headline"]', // ABC News specific
       'h1.article-title',
@@ -43,11 +69,13 @@ export async function scrapeArticle(url: string): Promise<ScrapedArticle> {
       'title'
     ];
 
-    for (const selector of titleSelectors) {
-      const element = $(selector).first();
-      if (element.length > 0) {
-        title = element.text().trim();
-        if (title && title.length > 10) break; // Ensure we have a substantial title
+    if (!title) {
+      for (const selector of titleSelectors) {
+        const element = $(selector).first();
+        if (element.length > 0) {
+          title = element.text().trim();
+          if (title && title.length > 10) break; // Ensure we have a substantial title
+        }
       }
     }
 
@@ -56,76 +84,53 @@ export async function scrapeArticle(url: string): Promise<ScrapedArticle> {
       title = $('title').text().trim() || 'News Article';
     }
 
-    // Remove unwanted elements that clutter the content
-    $('script, style, nav, header, footer, aside, .ad, .advertisement, .sidebar, .related-content, .social-share, .comments, .newsletter-signup, .video-player, .gallery, .photo-gallery').remove();
-
-    // ABC News specific content selectors
-    let content = '';
-    const contentSelectors = [
-      '[data-testid="prism-body"]', // ABC News article body
-      '[data-module="ArticleBody"]',
-      '.article-body',
-      '.story-body',
-      '.entry-content',
-      '.post-content',
-      '.article-content',
-      '.content-body',
-      'article',
-      '.main-content',
-      '.article__body'
-    ];
+    // Pagination links often live in nav/footer, so find them before boilerplate is stripped
+    const pageUrls = [url];
+    let nextPageUrl = followPagination ? findNextPageUrl($, url, pageUrls) : null;
 
-    for (const selector of contentSelectors) {
-      const element = $(selector).first();
-      if (element.length > 0) {
-        // Get text content and clean it up
-        content = element.text().trim();
-        if (content && content.length > 200) { // Ensure we have substantial content
-          console.log(`📝 Found content using selector: ${selector} (${content.length} chars)`);
-          break;
-        }
-      }
-    }
+    const { extractionStrategy, blocks: firstPageBlocks } = extractBody($);
+    let blocks = firstPageBlocks;
 
-    // If no specific content found, try to get all paragraph text from main content areas
-    if (!content || content.length < 200) {
-      console.log('🔄 Trying fallback content extraction...');
-      const mainContentAreas = $('main, .main, #main, .content, #content, .story, .article').first();
-      if (mainContentAreas.length > 0) {
-        const paragraphs = mainContentAreas.find('p').map((i, el) => $(el).text().trim()).get();
-        content = paragraphs.join('\n\n').trim();
+    // Follow "next page" links and stitch later pages onto the first
+    while (nextPageUrl && pageUrls.length < maxPages) {
+      try {
+        console.log(`📄 Following pagination to page ${pageUrls.length + 1}: ${nextPageUrl}`);
+        const $page = cheerio.load(await fetchArticleHtml(nextPageUrl, fetcher, allowedDomains));
+        pageUrls.push(nextPageUrl);
+        nextPageUrl = findNextPageUrl($page, nextPageUrl, pageUrls);
+        blocks = mergePageBlocks(blocks, extractBody($page).blocks);
+      } catch (pageError) {
+        console.warn(`⚠️ Failed to fetch page ${pageUrls.length + 1}, keeping ${pageUrls.length} page(s):`, pageError instanceof Error ? pageError.message : 'Unknown error');
+        break;
       }
     }
 
-    // Last resort: get all paragraph text from the entire page
-    if (!content || content.length < 100) {
-      console.log('🔄 Using all paragraphs as fallback...');
-      const paragraphs = $('p').map((i, el) => $(el).text().trim()).get()
-        .filter(p => p.length > 20) // Filter out very short paragraphs
-        .filter(p => !p.includes('@') && !p.includes('http') && !p.includes('Copyright')); // Filter out footers/emails
-      content = paragraphs.join('\n\n').trim();
-    }
-
-    // Clean up the content
-    content = content
-      .replace(/\s+/g, ' ') // Replace multiple whitespace with single space
-      .replace(/\n\s*\n/g, '\n\n') // Clean up line breaks
-      .replace(/[^\x20-\x7E\n]/g, '') // Remove non-ASCII characters except newlines
-      .trim();
-
-    // Limit content length to avoid token limits
-    if (content.length > 4000) {
-      content = content.substring(0, 4000) + '...';
-    }
+    // Paragraph structure and Unicode are preserved; prompt-size limits are applied by truncateForPrompt
+    const content = blocksToText(blocks);
 
-    console.log(`✅ Successfully scraped article: "${title.substring(0, 50)}..." (${content.length} characters)`);
+    console.log(`✅ Successfully scraped article: "${title.substring(0, 50)}..." (${content.length} characters, strategy: ${extractionStrategy})`);
     console.log(`📄 Content preview: "${content.substring(0, 100)}..."`);
 
+    // Use the publisher's word count when declared
+    const wordCount = metadata.wordCount || content.split(/\s+/).filter(Boolean).length;
+
     return {
       title,
       content,
+      blocks,
+      extractionStrategy,
+      pageCount: pageUrls.length,
       url,
-      success: true
+      success: true,
+      authors: metadata.authors,
+      publishedAt: metadata.publishedAt,
+      modifiedAt: metadata.modifiedAt,
+      section: metadata.section,
+      canonicalUrl: metadata.canonicalUrl,
+      imageUrl: metadata.imageUrl,
+      keywords: metadata.keywords,
+      wordCount,
+      siteName: metadata.siteName
     };
 
   } catch (error) {
@@ -141,6 +146,161 @@ export async function scrapeArticle(url: string): Promise<ScrapedArticle> {
   }
 }
 
+/**
+ * Download an article page (the shared fetcher honours robots.txt and identifies
+ * us with the configured crawler user agent)
+ */
+async function fetchArticleHtml(url: string, fetcher: TextFetcher, allowedDomains?: string[]): Promise<string> {
+  // Article links can come from users, so never follow them into private networks (or off the allowed domains)
+  const { body } = await fetcher.fetchText(url, {
+    timeout: 15000,
+    publicOnly: true,
+    allowedDomains,
+    maxBytes: MAX_ARTICLE_BYTES
+  });
+  return body;
+}
+
+/**
+ * Locate the article body on a loaded page, trying known selectors, content
+ * scoring, the main content area and finally every paragraph
+ */
+function extractBody($: cheerio.Root): { blocks: ArticleBlock[]; extractionStrategy: ExtractionStrategy } {
+  // Remove unwanted elements that clutter the content
+  $('script, style, nav, header, footer, aside, .ad, .advertisement, .sidebar, .related-content, .social-share, .comments, .newsletter-signup, .video-player, .gallery, .photo-gallery').remove();
+
+  // ABC News specific content selectors
+  let blocks: ArticleBlock[] = [];
+  let extractionStrategy: ExtractionStrategy = 'selector';
+  const contentSelectors = [
+    '[data-testid="prism-body"]', // ABC News article body
+    '[data-module="ArticleBody"]',
+    '.article-body',
+    '.story-body',
+    '.entry-content',
+    '.post-content',
+    '.article-content',
+    '.content-body',
+    'article',
+    '.main-content',
+    '.article__body'
+  ];
+
+  for (const selector of contentSelectors) {
+    const element = $(selector).first();
+    if (element.length > 0) {
+      // Prefer structured blocks; fall back to the element's raw text for markup without <p> tags
+      blocks = extractBlocks($, element);
+      if (blocks.length === 0) {
+        blocks = textToBlocks(element.text());
+      }
+      const length = blocksToText(blocks).length;
+      if (length > 200) { // Ensure we have substantial content
+        console.log(`📝 Found content using selector: ${selector} (${length} chars, ${blocks.length} blocks)`);
+        break;
+      }
+    }
+  }
+
+  // Unknown site: score containers by text density to find the article body
+  if (blocksToText(blocks).length < 200) {
+    console.log('🔄 Known selectors failed, scoring page content...');
+    const scored = findMainContent($);
+    if (scored && blocksToText(scored.blocks).length >= 200) {
+      console.log(`📝 Found content by content scoring (score ${scored.score}, ${scored.blocks.length} blocks)`);
+      blocks = scored.blocks;
+      extractionStrategy = 'readability';
+    }
+  }
+
+  // If no specific content found, try to get all paragraph text from main content areas
+  if (blocksToText(blocks).length < 200) {
+    console.log('🔄 Trying fallback content extraction...');
+    const mainContentAreas = $('main, .main, #main, .content, #content, .story, .article').first();
+    if (mainContentAreas.length > 0) {
+      blocks = extractBlocks($, mainContentAreas);
+      extractionStrategy = 'main-content';
+    }
+  }
+
+  // Last resort: get all paragraph text from the entire page
+  if (blocksToText(blocks).length < 100) {
+    console.log('🔄 Using all paragraphs as fallback...');
+    extractionStrategy = 'all-paragraphs';
+    blocks = extractBlocks($, $.root())
+      .filter(block => block.type === 'paragraph')
+      .filter(block => block.text.length > 20) // Filter out very short paragraphs
+      .filter(block => !block.text.includes('@') && !block.text.includes('http') && !block.text.includes('Copyright')); // Filter out footers/emails
+  }
+
+  return { blocks, extractionStrategy };
+}
+
+/**
+ * Find the URL of the next page of a split article (rel="next", "next page" /
+ * "continue reading" links or ?page=N+1). Only same-origin pages that haven't
+ * been visited yet are returned.
+ */
+function findNextPageUrl($: cheerio.Root, currentUrl: string, visited: string[]): string | null {
+  const current = new URL(currentUrl);
+  const currentPage = Number(current.searchParams.get('page')) || 1;
+
+  const isNextPage = (href: string) => {
+    try {
+      return Number(new URL(href, currentUrl).searchParams.get('page')) === currentPage + 1;
+    } catch {
+      return false;
+    }
+  };
+
+  // "Next story" / "Next article: ..." links lead to other articles, so link text
+  // alone isn't enough: the link must stay on this article's path or be ?page=N+1
+  const isSameArticle = (href: string) => {
+    try {
+      const articlePath = current.pathname.replace(/\/+$/, '');
+      const { pathname } = new URL(href, currentUrl);
+      return pathname.replace(/\/+$/, '') === articlePath || pathname.startsWith(`${articlePath}/`) || isNextPage(href);
+    } catch {
+      return false;
+    }
+  };
+
+  const candidates: string[] = [
+    $('link[rel="next"]').first().attr('href') || '',
+    $('a[rel="next"]').first().attr('href') || '',
+    ...$('a[href]')
+      .filter((_, link) => NEXT_PAGE_TEXT.test($(link).text().replace(/\s+/g, ' ').trim()))
+      .map((_, link) => $(link).attr('href') || '').get()
+      .filter(isSameArticle),
+    ...$('a[href*="page="]').map((_, link) => $(link).attr('href') || '').get().filter(isNextPage)
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      const next = new URL(candidate, currentUrl);
+      next.hash = '';
+      const nextUrl = next.toString();
+      if (next.origin === current.origin && !visited.includes(nextUrl) && nextUrl !== currentUrl) {
+        return nextUrl;
+      }
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Append a later page's blocks, dropping blocks repeated from earlier pages
+ * (headline, standfirst, section headers, share prompts)
+ */
+function mergePageBlocks(existing: ArticleBlock[], next: ArticleBlock[]): ArticleBlock[] {
+  const seen = new Set(existing.map(block => block.text.toLowerCase()));
+  return [...existing, ...next.filter(block => !seen.has(block.text.toLowerCase()))];
+}
+
 /**
  * Extract the main content from HTML using common news site patterns
  */
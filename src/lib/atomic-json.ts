@@ -0,0 +1,69 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+/**
+ * Write JSON to a temp file next to the target, flush it to disk and rename it
+ * over the target, so readers only ever see the old or the new file
+ */
+export async function writeJsonAtomic(file: string, data: unknown, options: { spaces?: number } = {}): Promise<void> {
+  const tempFile = `${file}.${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2, 8)}.tmp`;
+
+  try {
+    await fs.writeFile(tempFile, JSON.stringify(data, null, options.spaces));
+    const fd = await fs.open(tempFile, 'r+');
+    try {
+      await fs.fsync(fd);
+    } finally {
+      await fs.close(fd);
+    }
+    await fs.rename(tempFile, file);
+  } catch (error) {
+    await fs.remove(tempFile).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Read a JSON file, moving it into a sibling `quarantine` directory when it
+ * can't be parsed or fails validation. Returns null when the file is missing
+ * or was quarantined.
+ */
+export async function readJsonOrQuarantine<T>(file: string, parse: (raw: unknown) => T = raw => raw as T): Promise<T | null> {
+  if (!await fs.pathExists(file)) {
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = await fs.readJson(file);
+  } catch (error) {
+    await quarantineFile(file, `unreadable JSON (${error instanceof Error ? error.message : 'unknown error'})`);
+    return null;
+  }
+
+  try {
+    return parse(raw);
+  } catch (error) {
+    await quarantineFile(file, error instanceof Error ? error.message : 'failed validation');
+    return null;
+  }
+}
+
+/**
+ * Move a corrupt file aside for inspection instead of deleting it
+ */
+export async function quarantineFile(file: string, reason: string): Promise<string | null> {
+  try {
+    const quarantineDir = path.join(path.dirname(file), 'quarantine');
+    const { name, ext } = path.parse(file);
+    const target = path.join(quarantineDir, `${name}.${new Date().toISOString().replace(/[:.]/g, '-')}${ext}`);
+
+    await fs.ensureDir(quarantineDir);
+    await fs.move(file, target, { overwrite: true });
+    console.error(`🚧 Quarantined ${path.basename(file)}: ${reason} (moved to ${target})`);
+    return target;
+  } catch (error) {
+    console.error(`❌ Failed to quarantine ${file}:`, error);
+    return null;
+  }
+}
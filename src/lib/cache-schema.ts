@@ -0,0 +1,150 @@
+import type { CachedNews, CacheMetadata, NewsArticle, NewsChangeSet, ScrapeRun } from './types';
+
+/**
+ * Version of the cached news layout. Bump it whenever NewsArticle or the cache
+ * layout changes shape, and add a migration from the previous version below.
+ */
+export const CACHE_SCHEMA_VERSION = 2;
+
+type CacheRecord = Record<string, unknown>;
+type Migration = (data: CacheRecord) => CacheRecord;
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const migrations: Record<number, Migration> = {
+  // v1: unversioned caches written before multi-source support
+  1: data => ({
+    ...data,
+    sources: Array.isArray(data.sources) ? data.sources : typeof data.source === 'string' ? [data.source] : [],
+    // Anything that isn't an article object is left for validation to reject
+    articles: (Array.isArray(data.articles) ? data.articles : []).map((article: unknown) => !isRecord(article) ? article : {
+      ...article,
+      scrapedAt: article.scrapedAt || data.scrapedAt,
+      publishedAt: article.publishedAt || article.scrapedAt || data.scrapedAt
+    })
+  })
+};
+
+/**
+ * Bring cached news from any older schema version up to the current one and
+ * validate the result. Throws with the reason when the data can't be used.
+ * Returns null for caches written by a newer version: they are valid, just not
+ * readable by this build, and must be left in place for it (e.g. after a rollback).
+ */
+export function migrateCachedNews(raw: unknown): { news: CachedNews; migrated: boolean } | null {
+  if (!isRecord(raw)) {
+    throw new Error('cache is not a JSON object');
+  }
+
+  let data: CacheRecord = raw;
+  let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+  const startVersion = version;
+
+  if (version > CACHE_SCHEMA_VERSION) {
+    console.warn(`⚠️ Ignoring news cache with schema v${version}, newer than supported v${CACHE_SCHEMA_VERSION}`);
+    return null;
+  }
+
+  while (version < CACHE_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`no migration from cache schema v${version}`);
+    }
+    data = migrate(data);
+    version++;
+  }
+
+  const problem = validateCachedNews(data);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  return {
+    news: { ...data, schemaVersion: CACHE_SCHEMA_VERSION } as CachedNews,
+    migrated: version !== startVersion
+  };
+}
+
+/**
+ * Check the shape of cached news, returning a description of the first problem
+ */
+export function validateCachedNews(data: CacheRecord): string | null {
+  for (const field of ['lastUpdated', 'source', 'scrapedAt'] as const) {
+    if (typeof data[field] !== 'string') {
+      return `cache field "${field}" is missing or not a string`;
+    }
+  }
+  if (!Array.isArray(data.articles)) {
+    return 'cache has no articles array';
+  }
+  if (typeof data.totalArticles !== 'number') {
+    return 'cache field "totalArticles" is missing or not a number';
+  }
+
+  const invalid = data.articles.findIndex(article => !isValidArticle(article));
+  if (invalid !== -1) {
+    return `cached article #${invalid} is missing required fields`;
+  }
+  return null;
+}
+
+/**
+ * Check the shape of cache metadata
+ */
+export function validateCacheMetadata(raw: unknown): CacheMetadata {
+  if (!isRecord(raw) || typeof raw.totalArticlesCached !== 'number' || typeof raw.cacheSize !== 'number') {
+    throw new Error('cache metadata is missing required fields');
+  }
+  return raw as unknown as CacheMetadata;
+}
+
+/**
+ * Check the shape of the stored change history
+ */
+export function validateChangeSets(raw: unknown): NewsChangeSet[] {
+  return validateList(raw, 'change set', changeSet => typeof changeSet.at === 'string'
+    && Array.isArray(changeSet.added)
+    && Array.isArray(changeSet.removed)
+    && Array.isArray(changeSet.titleChanged));
+}
+
+/**
+ * Check the shape of the stored scrape metrics history
+ */
+export function validateScrapeRuns(raw: unknown): ScrapeRun[] {
+  return validateList(raw, 'scrape run', run => typeof run.at === 'string'
+    && typeof run.durationMs === 'number'
+    && Array.isArray(run.sources));
+}
+
+/**
+ * Check that a cached narration is a JSON object
+ */
+export function validateNarration<T>(raw: unknown): T {
+  if (!isRecord(raw)) {
+    throw new Error('narration is not a JSON object');
+  }
+  return raw as T;
+}
+
+function validateList<T>(raw: unknown, name: string, isValid: (item: CacheRecord) => boolean): T[] {
+  if (!Array.isArray(raw)) {
+    throw new Error(`${name} history is not a JSON array`);
+  }
+  const invalid = raw.findIndex(item => !isRecord(item) || !isValid(item));
+  if (invalid !== -1) {
+    throw new Error(`${name} #${invalid} is missing required fields`);
+  }
+  return raw as T[];
+}
+
+function isValidArticle(article: unknown): article is NewsArticle {
+  if (!isRecord(article)) return false;
+  return ['id', 'title', 'url', 'category', 'publishedAt', 'scrapedAt']
+    .every(field => typeof article[field] === 'string');
+}
+
+function isRecord(value: unknown): value is CacheRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
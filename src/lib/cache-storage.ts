@@ -0,0 +1,251 @@
+import fs from 'fs-extra';
+import path from 'path';
+import NewsArchive from './news-archive';
+import { readJsonOrQuarantine, writeJsonAtomic } from './atomic-json';
+import {
+  CACHE_SCHEMA_VERSION,
+  migrateCachedNews,
+  validateCacheMetadata,
+  validateChangeSets,
+  validateNarration,
+  validateScrapeRuns
+} from './cache-schema';
+import { DEFAULT_PERSONA_ID } from './personas';
+import type {
+  ArchivedArticle,
+  ArchiveQuery,
+  ArchiveStats,
+  CachedNews,
+  CacheMetadata,
+  NewsArticle,
+  NewsChangeSet,
+  ScrapeRun
+} from './types';
+
+export type CacheBackend = 'file' | 'sqlite';
+
+// Change history kept by the file backend (several refreshes a day for months)
+const MAX_CHANGE_SETS = 500;
+// Scrape metrics history kept by the file backend
+const MAX_SCRAPE_RUNS = 500;
+
+/**
+ * Storage backend behind CacheManager, the news archive and the narration cache
+ */
+export interface CacheStorage {
+  readonly backend: CacheBackend;
+
+  /** Current news snapshot served by /api/news */
+  readNews(): Promise<CachedNews | null>;
+  writeNews(news: CachedNews, metadata: CacheMetadata): Promise<void>;
+  readMetadata(): Promise<CacheMetadata | null>;
+  /** When the current snapshot was written, null when there is none */
+  getLastWrite(): Promise<Date | null>;
+  /** Bytes used by the current snapshot (or the whole database) */
+  getSize(): Promise<number>;
+  clearNews(): Promise<void>;
+
+  /** Historical archive keyed by article URL */
+  recordArticles(articles: NewsArticle[], seenAt?: string): Promise<{ added: number; updated: number }>;
+  queryArticles(query: ArchiveQuery): Promise<ArchivedArticle[]>;
+  getArticleByUrl(url: string): Promise<ArchivedArticle | null>;
+  getArchiveStats(): Promise<ArchiveStats>;
+
+  /** Per-refresh change sets, oldest first */
+  recordChanges(changeSet: NewsChangeSet): Promise<void>;
+  getChangesSince(since: string): Promise<NewsChangeSet[]>;
+
+  /** Scrape health metrics, oldest first */
+  recordScrapeRun(run: ScrapeRun): Promise<void>;
+  /** The most recent `limit` runs, oldest first */
+  getScrapeRuns(limit: number): Promise<ScrapeRun[]>;
+
+  /** Generated narrations keyed by news link and narrator persona (default persona when omitted) */
+  getNarration<T = unknown>(newsLink: string, persona?: string): Promise<T | null>;
+  storeNarration(newsLink: string, narration: unknown, persona?: string): Promise<void>;
+}
+
+/**
+ * JSON file storage: the original news-cache.json/cache-metadata.json layout,
+ * the file-based archive and one JSON file per narration. Every write goes
+ * through a temp file and rename; corrupt files are quarantined on read.
+ */
+export class FileCacheStorage implements CacheStorage {
+  readonly backend = 'file' as const;
+
+  private cacheFile: string;
+  private metadataFile: string;
+  private changesFile: string;
+  private scrapeRunsFile: string;
+  private narrationDir: string;
+  private archive: NewsArchive;
+
+  constructor(cacheDir: string) {
+    this.cacheFile = path.join(cacheDir, 'news-cache.json');
+    this.metadataFile = path.join(cacheDir, 'cache-metadata.json');
+    this.changesFile = path.join(cacheDir, 'news-changes.json');
+    this.scrapeRunsFile = path.join(cacheDir, 'scrape-runs.json');
+    this.narrationDir = path.join(cacheDir, 'ai-narrator');
+    this.archive = new NewsArchive({ archiveDir: path.join(cacheDir, 'archive') });
+
+    fs.ensureDirSync(cacheDir);
+    fs.ensureDirSync(this.narrationDir);
+  }
+
+  async readNews(): Promise<CachedNews | null> {
+    const result = await readJsonOrQuarantine(this.cacheFile, migrateCachedNews);
+    if (!result) {
+      return null;
+    }
+
+    // Persist migrations so old caches are only upgraded once, keeping the
+    // modification time that cache expiry is measured from
+    if (result.migrated) {
+      console.log(`🔄 Migrated news cache to schema v${CACHE_SCHEMA_VERSION}`);
+      const { atime, mtime } = await fs.stat(this.cacheFile);
+      await writeJsonAtomic(this.cacheFile, result.news, { spaces: 2 });
+      await fs.utimes(this.cacheFile, atime, mtime);
+    }
+    return result.news;
+  }
+
+  async writeNews(news: CachedNews, metadata: CacheMetadata): Promise<void> {
+    // News first: metadata left over from a crash in between is detected in readMetadata
+    await writeJsonAtomic(this.cacheFile, news, { spaces: 2 });
+    await writeJsonAtomic(this.metadataFile, metadata, { spaces: 2 });
+  }
+
+  async readMetadata(): Promise<CacheMetadata | null> {
+    const metadata = await readJsonOrQuarantine(this.metadataFile, validateCacheMetadata);
+    const news = await this.readNews();
+
+    // Rebuild metadata that is missing or describes a different snapshot
+    if (news && (!metadata || metadata.lastRefresh !== news.lastUpdated)) {
+      const rebuilt: CacheMetadata = {
+        lastRefresh: news.lastUpdated,
+        nextScheduledRefresh: metadata?.nextScheduledRefresh || null,
+        totalArticlesCached: news.totalArticles,
+        cacheSize: JSON.stringify(news).length
+      };
+      console.log('🔧 Rebuilt cache metadata from the news cache');
+      await writeJsonAtomic(this.metadataFile, rebuilt, { spaces: 2 });
+      return rebuilt;
+    }
+    return metadata;
+  }
+
+  async getLastWrite(): Promise<Date | null> {
+    try {
+      const stats = await fs.stat(this.cacheFile);
+      return stats.mtime;
+    } catch {
+      return null;
+    }
+  }
+
+  async getSize(): Promise<number> {
+    try {
+      const stats = await fs.stat(this.cacheFile);
+      return stats.size;
+    } catch {
+      return 0;
+    }
+  }
+
+  async clearNews(): Promise<void> {
+    await fs.remove(this.cacheFile);
+    await fs.remove(this.metadataFile);
+  }
+
+  recordArticles(articles: NewsArticle[], seenAt?: string): Promise<{ added: number; updated: number }> {
+    return this.archive.recordArticles(articles, seenAt);
+  }
+
+  queryArticles(query: ArchiveQuery): Promise<ArchivedArticle[]> {
+    return this.archive.query(query);
+  }
+
+  getArticleByUrl(url: string): Promise<ArchivedArticle | null> {
+    return this.archive.getByUrl(url);
+  }
+
+  getArchiveStats(): Promise<ArchiveStats> {
+    return this.archive.getStats();
+  }
+
+  async recordChanges(changeSet: NewsChangeSet): Promise<void> {
+    const changeSets = await readJsonOrQuarantine(this.changesFile, validateChangeSets) || [];
+    changeSets.push(changeSet);
+    await writeJsonAtomic(this.changesFile, changeSets.slice(-MAX_CHANGE_SETS));
+  }
+
+  async getChangesSince(since: string): Promise<NewsChangeSet[]> {
+    const sinceTime = new Date(since).getTime();
+    const changeSets = await readJsonOrQuarantine(this.changesFile, validateChangeSets) || [];
+    return changeSets.filter(changeSet => new Date(changeSet.at).getTime() > sinceTime);
+  }
+
+  async recordScrapeRun(run: ScrapeRun): Promise<void> {
+    const runs = await readJsonOrQuarantine(this.scrapeRunsFile, validateScrapeRuns) || [];
+    runs.push(run);
+    await writeJsonAtomic(this.scrapeRunsFile, runs.slice(-MAX_SCRAPE_RUNS));
+  }
+
+  async getScrapeRuns(limit: number): Promise<ScrapeRun[]> {
+    const runs = await readJsonOrQuarantine(this.scrapeRunsFile, validateScrapeRuns) || [];
+    return runs.slice(-limit);
+  }
+
+  async getNarration<T = unknown>(newsLink: string, persona: string = DEFAULT_PERSONA_ID): Promise<T | null> {
+    return readJsonOrQuarantine(this.getNarrationPath(newsLink, persona), validateNarration<T>);
+  }
+
+  async storeNarration(newsLink: string, narration: unknown, persona: string = DEFAULT_PERSONA_ID): Promise<void> {
+    await writeJsonAtomic(this.getNarrationPath(newsLink, persona), narration, { spaces: 2 });
+  }
+
+  // Default persona narrations keep the pre-persona file name so existing caches stay valid
+  private getNarrationPath(newsLink: string, persona: string): string {
+    let hash = 0;
+    for (let i = 0; i < newsLink.length; i++) {
+      hash = (hash << 5) - hash + newsLink.charCodeAt(i);
+      hash = hash & hash; // Convert to 32bit integer
+    }
+    const suffix = persona === DEFAULT_PERSONA_ID ? '' : `_${persona.replace(/[^a-z0-9-]/gi, '_')}`;
+    return path.join(this.narrationDir, `narration_${Math.abs(hash)}${suffix}.json`);
+  }
+}
+
+const storages = new Map<string, CacheStorage>();
+
+/**
+ * Get the shared storage for a backend and cache directory.
+ * The backend defaults to CACHE_BACKEND (file or sqlite), falling back to file.
+ */
+export function getCacheStorage(options: { backend?: CacheBackend; cacheDir?: string } = {}): CacheStorage {
+  const backend = options.backend || parseCacheBackend(process.env.CACHE_BACKEND);
+  const cacheDir = options.cacheDir || path.join(process.cwd(), 'cache');
+  const key = `${backend}:${cacheDir}`;
+
+  let storage = storages.get(key);
+  if (!storage) {
+    if (backend === 'sqlite') {
+      // Loaded on demand so the native module is only required when SQLite is selected
+      const { SqliteCacheStorage } = require('./sqlite-cache-storage') as typeof import('./sqlite-cache-storage');
+      storage = new SqliteCacheStorage(process.env.CACHE_SQLITE_PATH || path.join(cacheDir, 'news.db'));
+    } else {
+      storage = new FileCacheStorage(cacheDir);
+    }
+    storages.set(key, storage);
+  }
+  return storage;
+}
+
+function parseCacheBackend(value: string | undefined): CacheBackend {
+  const backend = (value || 'file').trim().toLowerCase();
+  if (backend !== 'file' && backend !== 'sqlite') {
+    console.warn(`⚠️ Unknown CACHE_BACKEND "${value}", using file storage`);
+    return 'file';
+  }
+  return backend;
+}
@@ -1,24 +1,25 @@
 import fs from 'fs-extra';
 import path from 'path';
-import type { ScrapedNewsData, NewsData, CacheInfo } from './types';
+import { getCacheStorage, type CacheBackend, type CacheStorage } from './cache-storage';
+import { CACHE_SCHEMA_VERSION } from './cache-schema';
+import type { ScrapedNewsData, CacheInfo, CachedNews, CacheMetadata } from './types';
 
 /**
  * Cache Manager for storing and retrieving scraped news data
  */
 class CacheManager {
   private cacheDir: string;
-  private cacheFile: string;
-  private metadataFile: string;
+  private storage: CacheStorage;
   private maxAge: number;
 
-  constructor(options: { cacheDir?: string; maxAge?: number } = {}) {
+  constructor(options: { cacheDir?: string; maxAge?: number; backend?: CacheBackend; storage?: CacheStorage } = {}) {
     this.cacheDir = options.cacheDir || path.join(process.cwd(), 'cache');
-    this.cacheFile = path.join(this.cacheDir, 'news-cache.json');
-    this.metadataFile = path.join(this.cacheDir, 'cache-metadata.json');
     this.maxAge = options.maxAge || 24 * 60 * 60 * 1000; // 24 hours
 
     // Ensure cache directory exists
     this.ensureCacheDir();
+
+    this.storage = options.storage || getCacheStorage({ backend: options.backend, cacheDir: this.cacheDir });
   }
 
   /**
@@ -28,24 +29,28 @@ class CacheManager {
     try {
       console.log('💾 Storing news data in cache...');
 
-      const cacheData = {
-        lastUpdated: new Date().toISOString(),
+      // Both records share one timestamp so a half-finished write can be detected
+      const now = new Date().toISOString();
+
+      const cacheData: CachedNews = {
+        schemaVersion: CACHE_SCHEMA_VERSION,
+        lastUpdated: now,
         source: newsData.source,
+        sources: newsData.sources,
         totalArticles: newsData.totalArticles,
         articles: newsData.articles,
         scrapedAt: newsData.scrapedAt
       };
 
-      const metadata = {
-        lastRefresh: new Date().toISOString(),
+      const metadata: CacheMetadata = {
+        lastRefresh: now,
         nextScheduledRefresh: this.getNextMorningRefresh(),
         totalArticlesCached: newsData.totalArticles,
         cacheSize: JSON.stringify(cacheData).length
       };
 
       // Write cache data
-      await fs.writeJson(this.cacheFile, cacheData, { spaces: 2 });
-      await fs.writeJson(this.metadataFile, metadata, { spaces: 2 });
+      await this.storage.writeNews(cacheData, metadata);
 
       console.log(`✅ Cached ${newsData.totalArticles} articles successfully`);
       return true;
@@ -62,7 +67,7 @@ class CacheManager {
   async getNews(forceRefresh = false): Promise<(ScrapedNewsData & { fromCache: boolean; cacheInfo: CacheInfo }) | null> {
     try {
       // Check if cache exists
-      if (!await fs.pathExists(this.cacheFile)) {
+      if (!await this.storage.getLastWrite()) {
         console.log('📭 No cache found');
         return null;
       }
@@ -74,13 +79,18 @@ class CacheManager {
       }
 
       console.log('📰 Retrieving news from cache...');
-      const cacheData = await fs.readJson(this.cacheFile);
+      const cacheData = await this.storage.readNews();
+      if (!cacheData) {
+        console.log('📭 No cache found');
+        return null;
+      }
       
       // Add cache info to response
       const metadata = await this.getCacheMetadata();
       
       return {
         source: cacheData.source,
+        sources: cacheData.sources,
         scrapedAt: cacheData.scrapedAt,
         totalArticles: cacheData.totalArticles,
         articles: cacheData.articles,
@@ -99,14 +109,10 @@ class CacheManager {
   /**
    * Get cache metadata
    */
-  async getCacheMetadata(): Promise<{
-    lastRefresh: string | null;
-    nextScheduledRefresh: string | null;
-    totalArticlesCached: number;
-    cacheSize: number;
-  } | null> {
+  async getCacheMetadata(): Promise<CacheMetadata | null> {
     try {
-      if (!await fs.pathExists(this.metadataFile)) {
+      const metadata = await this.storage.readMetadata();
+      if (!metadata) {
         return {
           lastRefresh: null,
           nextScheduledRefresh: null,
@@ -115,7 +121,7 @@ class CacheManager {
         };
       }
 
-      return await fs.readJson(this.metadataFile);
+      return metadata;
     } catch (error) {
       console.error('❌ Error reading metadata:', error);
       return null;
@@ -127,8 +133,11 @@ class CacheManager {
    */
   private async isCacheExpired(): Promise<boolean> {
     try {
-      const stats = await fs.stat(this.cacheFile);
-      const cacheAge = Date.now() - new Date(stats.mtime).getTime();
+      const lastWrite = await this.storage.getLastWrite();
+      if (!lastWrite) {
+        return true;
+      }
+      const cacheAge = Date.now() - lastWrite.getTime();
       return cacheAge > this.maxAge;
     } catch (error) {
       return true; // Consider expired if can't read
@@ -142,13 +151,7 @@ class CacheManager {
     try {
       console.log('🗑️ Clearing cache...');
 
-      if (await fs.pathExists(this.cacheFile)) {
-        await fs.remove(this.cacheFile);
-      }
-
-      if (await fs.pathExists(this.metadataFile)) {
-        await fs.remove(this.metadataFile);
-      }
+      await this.storage.clearNews();
 
       console.log('✅ Cache cleared successfully');
       return true;
@@ -171,7 +174,7 @@ class CacheManager {
     error?: string;
   }> {
     try {
-      const cacheExists = await fs.pathExists(this.cacheFile);
+      const cacheExists = !!await this.storage.getLastWrite();
 
       if (!cacheExists) {
         return {
@@ -184,17 +187,16 @@ class CacheManager {
         };
       }
 
-      const stats = await fs.stat(this.cacheFile);
-      const cacheData = await fs.readJson(this.cacheFile);
+      const size = await this.storage.getSize();
       const isExpired = await this.isCacheExpired();
       const metadata = await this.getCacheMetadata();
 
       return {
         exists: true,
-        lastUpdated: cacheData.lastUpdated,
+        lastUpdated: metadata?.lastRefresh || null,
         isExpired: isExpired,
-        size: stats.size,
-        articlesCount: cacheData.totalArticles,
+        size,
+        articlesCount: metadata?.totalArticlesCached || 0,
         nextRefresh: metadata?.nextScheduledRefresh || null
       };
 
@@ -232,17 +234,22 @@ class CacheManager {
   }
 
   /**
-   * Get cache file paths (for debugging)
+   * Get the storage backend (shared with the archive and narration cache)
+   */
+  getStorage(): CacheStorage {
+    return this.storage;
+  }
+
+  /**
+   * Get cache location and backend (for debugging)
    */
   getCachePaths(): {
     cacheDir: string;
-    cacheFile: string;
-    metadataFile: string;
+    backend: CacheBackend;
   } {
     return {
       cacheDir: this.cacheDir,
-      cacheFile: this.cacheFile,
-      metadataFile: this.metadataFile
+      backend: this.storage.backend
     };
   }
 }
@@ -0,0 +1,152 @@
+import * as cheerio from 'cheerio';
+import { extractBlocks, elementToBlock, BLOCK_SELECTOR, type ArticleBlock } from './article-blocks';
+
+export interface ScoredContent {
+  blocks: ArticleBlock[];
+  score: number;
+}
+
+// Class/id hints that a container holds (or doesn't hold) the article body
+const POSITIVE_HINTS = /article|body|content|entry|main|page|post|story|text|blog/i;
+const NEGATIVE_HINTS = /comment|footer|footnote|cookie|consent|gdpr|banner|promo|related|recommend|share|social|sidebar|newsletter|subscribe|signup|nav|menu|widget|advert|sponsor|outbrain|taboola|popup|modal|masthead|breadcrumb|tags?$/i;
+
+// Short blocks that are boilerplate no matter where they appear. Longer blocks
+// are story text that may well mention cookies, copyright or a newsletter.
+const BOILERPLATE_TEXT = /cookies?|privacy policy|terms of (use|service)|all rights reserved|©|copyright|sign up for|subscribe to|newsletter|enable javascript|accept all/i;
+const MAX_BOILERPLATE_LENGTH = 200;
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_TOP_SCORE = 10;
+
+/**
+ * Readability-style main content detection for sites without known selectors.
+ * Scores paragraph containers by text volume and punctuation, weights them by
+ * class/id hints and link density, then clusters sibling paragraphs of the
+ * winning container. Returns null when nothing looks like an article body.
+ */
+export function findMainContent($: cheerio.Root): ScoredContent | null {
+  const scores = new Map<cheerio.Element, number>();
+
+  const addScore = (element: cheerio.Element | undefined, points: number) => {
+    if (!element || element.type !== 'tag') return;
+    if (!scores.has(element)) {
+      scores.set(element, classWeight(element));
+    }
+    scores.set(element, scores.get(element)! + points);
+  };
+
+  $('p, pre, td, blockquote').each((_, paragraph) => {
+    const text = $(paragraph).text().replace(/\s+/g, ' ').trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH || isBoilerplate(text)) return;
+
+    // One point per paragraph, per comma and per 100 characters (capped at 3)
+    const points = 1 + (text.match(/[,，、]/g) || []).length + Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = $(paragraph).parent().get(0) as cheerio.Element | undefined;
+    const grandparent = parent ? $(parent).parent().get(0) as cheerio.Element | undefined : undefined;
+    addScore(parent, points);
+    addScore(grandparent, points / 2);
+  });
+
+  let top: cheerio.Element | null = null;
+  let topScore = 0;
+
+  scores.forEach((score, element) => {
+    const finalScore = score * (1 - linkDensity($, element));
+    scores.set(element, finalScore);
+    if (finalScore > topScore) {
+      top = element;
+      topScore = finalScore;
+    }
+  });
+
+  if (!top || topScore < MIN_TOP_SCORE) {
+    return null;
+  }
+
+  const blocks = clusterSiblings($, top, topScore, scores);
+  return blocks.length > 0 ? { blocks, score: Math.round(topScore) } : null;
+}
+
+/**
+ * Collect blocks from the top container plus any siblings that look like part of
+ * the same article (high-scoring containers or long, link-poor paragraphs)
+ */
+function clusterSiblings($: cheerio.Root, top: cheerio.Element, topScore: number, scores: Map<cheerio.Element, number>): ArticleBlock[] {
+  const threshold = Math.max(10, topScore * 0.2);
+  const $top = $(top);
+  const $siblings = $top.parent().length > 0 ? $top.parent().children() : $top;
+  const blocks: ArticleBlock[] = [];
+
+  $siblings.each((_, sibling) => {
+    if (sibling === top) {
+      blocks.push(...extractBlocks($, $top).filter(block => !isBoilerplate(block.text)));
+      return;
+    }
+
+    const siblingScore = scores.get(sibling) || 0;
+    const text = $(sibling).text().replace(/\s+/g, ' ').trim();
+    const density = linkDensity($, sibling);
+
+    // High-scoring containers, or small paragraph containers such as a separate lead
+    const looksLikeBody = siblingScore >= threshold || (siblingScore > 0 && text.length > 80 && density < 0.25);
+    if (looksLikeBody && !NEGATIVE_HINTS.test(classAndId(sibling))) {
+      blocks.push(...extractBlocks($, $(sibling)).filter(block => !isBoilerplate(block.text)));
+      return;
+    }
+
+    // Loose paragraphs next to the body container
+    if ($(sibling).is(BLOCK_SELECTOR)) {
+      if ((text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text))) {
+        const block = elementToBlock($, sibling);
+        if (block && !isBoilerplate(block.text)) blocks.push(block);
+      }
+    }
+  });
+
+  return blocks;
+}
+
+/**
+ * Short cookie, copyright or newsletter notices
+ */
+function isBoilerplate(text: string): boolean {
+  return text.length < MAX_BOILERPLATE_LENGTH && BOILERPLATE_TEXT.test(text);
+}
+
+/**
+ * Share of an element's text that sits inside links
+ */
+function linkDensity($: cheerio.Root, element: cheerio.Element): number {
+  const textLength = $(element).text().replace(/\s+/g, ' ').trim().length;
+  if (textLength === 0) return 1;
+
+  let linkLength = 0;
+  $(element).find('a').each((_, link) => {
+    linkLength += $(link).text().replace(/\s+/g, ' ').trim().length;
+  });
+  return Math.min(linkLength / textLength, 1);
+}
+
+/**
+ * Initial container weight from its tag and class/id hints
+ */
+function classWeight(element: cheerio.Element): number {
+  const hints = classAndId(element);
+  let weight = 0;
+
+  if (POSITIVE_HINTS.test(hints)) weight += 25;
+  if (NEGATIVE_HINTS.test(hints)) weight -= 25;
+
+  const tagName = (element as cheerio.TagElement).tagName?.toLowerCase();
+  if (tagName === 'article') weight += 10;
+  if (tagName === 'main' || tagName === 'section') weight += 5;
+  if (tagName === 'form' || tagName === 'li' || tagName === 'td') weight -= 3;
+
+  return weight;
+}
+
+function classAndId(element: cheerio.Element): string {
+  const attribs = (element as cheerio.TagElement).attribs || {};
+  return `${attribs.class || ''} ${attribs.id || ''}`;
+}
@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { quarantineFile, writeJsonAtomic } from './atomic-json';
+import type { ScrapedArticle } from './article-scraper';
+
+export interface StoredArticleContent extends ScrapedArticle {
+  articleId: string;
+  fetchedAt: string;
+}
+
+/**
+ * File-based store for full article bodies, keyed by a hash of the article URL.
+ * Article ids are title slugs that can be empty or shared between sources, so
+ * they are only used through the URL index for lookups by id.
+ */
+class ArticleContentStore {
+  private storeDir: string;
+  private indexFile: string;
+  private indexWrites: Promise<void> = Promise.resolve();
+
+  constructor(options: { storeDir?: string } = {}) {
+    this.storeDir = options.storeDir || path.join(process.cwd(), 'cache', 'articles');
+    this.indexFile = path.join(this.storeDir, 'url-index.json');
+
+    fs.ensureDirSync(this.storeDir);
+  }
+
+  /**
+   * Check whether a body is stored for an article URL
+   */
+  async has(url: string): Promise<boolean> {
+    return fs.pathExists(this.getContentPath(url));
+  }
+
+  /**
+   * Get the stored body for an article id (the first stored article with that id)
+   */
+  async get(articleId: string): Promise<StoredArticleContent | null> {
+    const index = await this.readIndex();
+    const url = Object.keys(index).find(indexedUrl => index[indexedUrl] === articleId);
+    return url ? this.getByUrl(url) : null;
+  }
+
+  /**
+   * Get the stored body for an article URL
+   */
+  async getByUrl(url: string): Promise<StoredArticleContent | null> {
+    try {
+      const contentPath = this.getContentPath(url);
+      if (!await fs.pathExists(contentPath)) {
+        return null;
+      }
+      return await fs.readJson(contentPath);
+    } catch (error) {
+      console.error(`❌ Error reading stored content for ${url}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a scraped article body under its URL
+   */
+  async store(articleId: string, article: ScrapedArticle): Promise<StoredArticleContent> {
+    const stored: StoredArticleContent = {
+      ...article,
+      articleId,
+      fetchedAt: new Date().toISOString()
+    };
+
+    await writeJsonAtomic(this.getContentPath(article.url), stored, { spaces: 2 });
+
+    // Serialize index updates so concurrent prefetches don't drop entries
+    this.indexWrites = this.indexWrites.then(async () => {
+      const index = await this.readIndex();
+      index[article.url] = articleId;
+      await writeJsonAtomic(this.indexFile, index, { spaces: 2 });
+    }).catch(error => {
+      console.error('❌ Error updating content index:', error);
+    });
+    await this.indexWrites;
+
+    return stored;
+  }
+
+  /**
+   * Number of stored article bodies
+   */
+  async count(): Promise<number> {
+    return Object.keys(await this.readIndex()).length;
+  }
+
+  /**
+   * Remove every stored article body
+   */
+  async clear(): Promise<void> {
+    await fs.emptyDir(this.storeDir);
+  }
+
+  private async readIndex(): Promise<Record<string, string>> {
+    try {
+      if (!await fs.pathExists(this.indexFile)) {
+        return {};
+      }
+      return await fs.readJson(this.indexFile);
+    } catch (error) {
+      console.error('❌ Error reading content index:', error);
+      await quarantineFile(this.indexFile, 'unreadable JSON');
+      return {};
+    }
+  }
+
+  private getContentPath(url: string): string {
+    const key = createHash('sha256').update(normalizeUrl(url)).digest('hex').substring(0, 32);
+    return path.join(this.storeDir, `${key}.json`);
+  }
+}
+
+/**
+ * Normalise an article URL so trivially different links share one stored body:
+ * lower-case host (via URL), no fragment, no trailing slash
+ */
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+    return parsed.toString();
+  } catch {
+    return url.trim();
+  }
+}
+
+export default ArticleContentStore;
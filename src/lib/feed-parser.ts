@@ -0,0 +1,129 @@
+import * as cheerio from 'cheerio';
+
+export interface FeedItem {
+  title: string;
+  link: string;
+  summary: string;
+  author: string;
+  imageUrl: string;
+  publishedAt: string | null;
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'atom';
+  title: string;
+  items: FeedItem[];
+}
+
+const MAX_SUMMARY_LENGTH = 400;
+
+/**
+ * Parse an RSS 2.0 or Atom document into feed items
+ */
+export function parseFeed(xml: string): ParsedFeed {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  if ($('feed').length > 0) {
+    return {
+      format: 'atom',
+      title: $('feed > title').first().text().trim(),
+      items: $('feed > entry').map((_, entry) => parseAtomEntry($, $(entry))).get()
+    };
+  }
+
+  if ($('rss, rdf\\:RDF').length === 0) {
+    throw new Error('Document is not an RSS or Atom feed');
+  }
+
+  return {
+    format: 'rss',
+    title: $('channel > title').first().text().trim(),
+    items: $('item').map((_, item) => parseRssItem($, $(item))).get()
+  };
+}
+
+/**
+ * Parse a single RSS <item>
+ */
+function parseRssItem($: cheerio.Root, $item: cheerio.Cheerio): FeedItem {
+  const link = $item.children('link').first().text().trim()
+    || $item.children('guid[isPermaLink!="false"]').first().text().trim();
+
+  const author = $item.children('dc\\:creator').first().text().trim()
+    || $item.children('author').first().text().trim();
+
+  const date = $item.children('pubDate').first().text().trim()
+    || $item.children('dc\\:date').first().text().trim();
+
+  return {
+    title: $item.children('title').first().text().trim(),
+    link,
+    summary: htmlToSummary($item.children('description').first().text()),
+    author,
+    imageUrl: findRssImage($, $item),
+    publishedAt: normalizeDate(date)
+  };
+}
+
+/**
+ * Parse a single Atom <entry>
+ */
+function parseAtomEntry($: cheerio.Root, $entry: cheerio.Cheerio): FeedItem {
+  const $alternate = $entry.children('link[rel="alternate"]').first();
+  const link = ($alternate.length > 0 ? $alternate : $entry.children('link').first()).attr('href') || '';
+
+  const summary = $entry.children('summary').first().text() || $entry.children('content').first().text();
+  const date = $entry.children('published').first().text().trim() || $entry.children('updated').first().text().trim();
+  const $enclosure = $entry.children('link[rel="enclosure"]').filter((_, el) => ($(el).attr('type') || '').startsWith('image/')).first();
+
+  return {
+    title: $entry.children('title').first().text().trim(),
+    link,
+    summary: htmlToSummary(summary),
+    author: $entry.find('author > name').first().text().trim(),
+    imageUrl: $enclosure.attr('href') || findMediaImage($, $entry),
+    publishedAt: normalizeDate(date)
+  };
+}
+
+/**
+ * Find an image for an RSS item from its enclosure or Media RSS tags
+ */
+function findRssImage($: cheerio.Root, $item: cheerio.Cheerio): string {
+  const $enclosure = $item.children('enclosure').filter((_, el) => ($(el).attr('type') || '').startsWith('image/')).first();
+  if ($enclosure.length > 0) {
+    return $enclosure.attr('url') || '';
+  }
+  return findMediaImage($, $item);
+}
+
+/**
+ * Find an image in Media RSS (media:content / media:thumbnail) tags
+ */
+function findMediaImage($: cheerio.Root, $node: cheerio.Cheerio): string {
+  const $media = $node.find('media\\:content, media\\:thumbnail').filter((_, el) => {
+    const medium = $(el).attr('medium');
+    const type = $(el).attr('type') || '';
+    return !medium || medium === 'image' || type.startsWith('image/');
+  }).first();
+
+  return $media.attr('url') || '';
+}
+
+/**
+ * Strip markup from a feed description and shorten it to a teaser
+ */
+function htmlToSummary(html: string): string {
+  if (!html) return '';
+  const text = cheerio.load(html).root().text().replace(/\s+/g, ' ').trim();
+  return text.length > MAX_SUMMARY_LENGTH ? text.substring(0, MAX_SUMMARY_LENGTH).trim() + '...' : text;
+}
+
+/**
+ * Convert an RFC 822 / ISO 8601 date to ISO format, or null if unparseable
+ */
+function normalizeDate(value: string): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
@@ -0,0 +1,210 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+export interface LockInfo {
+  token: string;
+  pid: number;
+  host: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+export interface FileLock {
+  info: LockInfo;
+  release(): Promise<void>;
+}
+
+/**
+ * Take a cross-process lock by exclusively creating `file`. Returns null when
+ * another live holder has it. Locks left behind by crashed processes expire
+ * after `ttlMs`; a live holder renews its lock until it is released.
+ */
+export async function acquireLock(file: string, ttlMs: number): Promise<FileLock | null> {
+  await fs.ensureDir(path.dirname(file));
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const info = createLockInfo(ttlMs);
+    try {
+      await fs.writeFile(file, JSON.stringify(info), { flag: 'wx' });
+      return createHandle(file, info, ttlMs);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    // Someone holds it: take it over only if it has expired
+    const holder = await readLockFile(file);
+    if (!holder) {
+      continue;
+    }
+    if (new Date(holder.info.expiresAt).getTime() > Date.now()) {
+      return null;
+    }
+
+    // Another process may be taking it over at the same time; only one of us removes it
+    const removed = await removeLockIf(file, raw => raw === holder.raw);
+    if (!removed) {
+      return null;
+    }
+    console.warn(`🔓 Removed expired lock ${path.basename(file)} held by pid ${holder.info.pid} on ${holder.info.host}`);
+  }
+
+  return null;
+}
+
+/**
+ * Wait until nobody holds the lock (or it expires), polling every `pollMs`
+ */
+export async function waitForLockRelease(file: string, options: { timeoutMs: number; pollMs?: number }): Promise<boolean> {
+  const deadline = Date.now() + options.timeoutMs;
+  const pollMs = options.pollMs || 500;
+
+  while (Date.now() < deadline) {
+    const holder = await readLock(file);
+    if (!holder || new Date(holder.expiresAt).getTime() <= Date.now()) {
+      return true;
+    }
+    await new Promise(resolve => setTimeout(resolve, pollMs));
+  }
+  return false;
+}
+
+/**
+ * Current lock holder, or null when unlocked
+ */
+export async function readLock(file: string): Promise<LockInfo | null> {
+  return (await readLockFile(file))?.info || null;
+}
+
+/**
+ * Lock file contents as written, with the holder parsed from them
+ */
+async function readLockFile(file: string): Promise<{ raw: string; info: LockInfo } | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  try {
+    return { raw, info: JSON.parse(raw) as LockInfo };
+  } catch {
+    // Half-written lock file: judge it by age instead
+    try {
+      const stats = await fs.stat(file);
+      return {
+        raw,
+        info: {
+          token: '',
+          pid: 0,
+          host: 'unknown',
+          acquiredAt: stats.mtime.toISOString(),
+          expiresAt: new Date(stats.mtime.getTime() + 30 * 1000).toISOString()
+        }
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Remove the lock file only if its contents pass `isExpected`. The file is first
+ * renamed aside, which is atomic, so a lock another process created in the
+ * meantime is never deleted: it is checked after the move and linked back.
+ */
+async function removeLockIf(file: string, isExpected: (raw: string) => boolean): Promise<boolean> {
+  const aside = `${file}.${process.pid}-${Math.random().toString(36).slice(2, 10)}.removing`;
+  try {
+    await fs.rename(file, aside);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+
+  const moved = await fs.readFile(aside, 'utf8');
+  if (isExpected(moved)) {
+    await fs.remove(aside);
+    return true;
+  }
+
+  // Not the lock we meant to remove: put it back unless a newer one is already in place
+  try {
+    await fs.link(aside, file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+  }
+  await fs.remove(aside);
+  return false;
+}
+
+function isHeldBy(raw: string, token: string): boolean {
+  try {
+    return (JSON.parse(raw) as LockInfo).token === token;
+  } catch {
+    return false;
+  }
+}
+
+function createLockInfo(ttlMs: number): LockInfo {
+  const now = Date.now();
+  return {
+    token: `${process.pid}-${now}-${Math.random().toString(36).slice(2, 10)}`,
+    pid: process.pid,
+    host: os.hostname(),
+    acquiredAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs).toISOString()
+  };
+}
+
+function createHandle(file: string, info: LockInfo, ttlMs: number): FileLock {
+  let released = false;
+
+  // Push the expiry forward while we're still working
+  const renewal = setInterval(async () => {
+    const temp = `${file}.${info.token}.renew`;
+    try {
+      if ((await readLock(file))?.token !== info.token) {
+        return;
+      }
+      const renewed = { ...info, expiresAt: new Date(Date.now() + ttlMs).toISOString() };
+      await fs.writeFile(temp, JSON.stringify(renewed));
+
+      // Check again right before the atomic swap so a new holder's lock isn't overwritten
+      if (!released && (await readLock(file))?.token === info.token) {
+        await fs.rename(temp, file);
+        info.expiresAt = renewed.expiresAt;
+      } else {
+        await fs.remove(temp);
+      }
+    } catch (error) {
+      console.error('❌ Failed to renew lock:', error);
+      await fs.remove(temp).catch(() => undefined);
+    }
+  }, Math.max(1000, Math.floor(ttlMs / 3)));
+  renewal.unref();
+
+  return {
+    info,
+    async release() {
+      clearInterval(renewal);
+      released = true;
+      try {
+        // Only remove the lock if it's still ours (it may have expired and been taken over)
+        await removeLockIf(file, raw => isHeldBy(raw, info.token));
+      } catch (error) {
+        console.error('❌ Failed to release lock:', error);
+      }
+    }
+  };
+}
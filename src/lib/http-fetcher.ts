@@ -0,0 +1,427 @@
+import axios from 'axios';
+import { parseRobots, checkRobots, ALLOW_ALL, DISALLOW_ALL, type RobotsRules } from './robots';
+import {
+  assertPublicUrl,
+  publicOnlyLookup,
+  checkRedirect,
+  UnsafeUrlError,
+  type RedirectTarget,
+  type UrlGuardOptions
+} from './url-guard';
+
+/**
+ * Honest crawler identity; override with SCRAPER_USER_AGENT
+ */
+export const DEFAULT_USER_AGENT = 'NewsStorytellerBot/1.0 (+https://github.com/gona04/news-storyteller)';
+
+export interface FetchOptions {
+  accept?: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  /** Send If-None-Match/If-Modified-Since from the last response for this URL */
+  conditional?: boolean;
+  /** Refuse private, loopback and link-local targets, including via redirects (for user-supplied URLs) */
+  publicOnly?: boolean;
+  /** With publicOnly: only these domains (and their subdomains) may be fetched, redirect targets included */
+  allowedDomains?: string[];
+  /** Abort responses larger than this many bytes */
+  maxBytes?: number;
+}
+
+export interface FetchResult {
+  url: string;
+  status: number;
+  body: string;
+  /** True when the server answered 304 and the body came from the validator cache */
+  notModified: boolean;
+  attempts: number;
+}
+
+/**
+ * Anything that can GET a URL as text: the shared HttpFetcher, or a fixture reader in tests
+ */
+export interface TextFetcher {
+  fetchText(url: string, options?: FetchOptions): Promise<FetchResult>;
+}
+
+export interface HttpFetcherOptions {
+  /** Requests in flight at once across all hosts */
+  maxConcurrency?: number;
+  /** Minimum gap between request starts to the same host */
+  hostSpacingMs?: number;
+  /** Retries after the first attempt on 429, 5xx and network errors */
+  maxRetries?: number;
+  baseRetryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  timeout?: number;
+  userAgent?: string;
+  /** Consult robots.txt before every request (default true) */
+  respectRobots?: boolean;
+  robotsTtlMs?: number;
+}
+
+/**
+ * Error for a response that was still failing after retries
+ */
+export class HttpError extends Error {
+  constructor(public url: string, public status: number, message = `HTTP ${status} for ${url}`) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Error for a URL that robots.txt doesn't allow this crawler to fetch
+ */
+export class RobotsDisallowedError extends Error {
+  constructor(public url: string, public userAgent: string) {
+    super(`Blocked by robots.txt: ${url} is disallowed for ${userAgent}`);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+interface Validators {
+  etag?: string;
+  lastModified?: string;
+  body: string;
+}
+
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNREFUSED', 'EPIPE']);
+const MAX_VALIDATORS = 500;
+// How long to treat a site as fully disallowed after its robots.txt failed with 5xx or a network error
+const ROBOTS_UNREACHABLE_TTL_MS = 10 * 60 * 1000;
+// Longest Crawl-delay honoured; the shared queue would otherwise stall on a mistaken or hostile value
+const MAX_CRAWL_DELAY_SECONDS = 30;
+
+/**
+ * Polite HTTP client for scraping: robots.txt rules and crawl-delay, bounded
+ * concurrency, per-host request spacing, exponential backoff with jitter on
+ * 429/5xx, Retry-After support and conditional requests with ETag/Last-Modified
+ */
+class HttpFetcher implements TextFetcher {
+  private maxConcurrency: number;
+  private hostSpacingMs: number;
+  private maxRetries: number;
+  private baseRetryDelayMs: number;
+  private maxRetryDelayMs: number;
+  private timeout: number;
+  private userAgent: string;
+  private agentToken: string;
+  private respectRobots: boolean;
+  private robotsTtlMs: number;
+
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private nextSlotByHost = new Map<string, number>();
+  private validators = new Map<string, Validators>();
+  private robotsByOrigin = new Map<string, { rules: Promise<RobotsRules>; expiresAt: number }>();
+  private crawlDelayByHost = new Map<string, number>();
+  private stats = { requests: 0, retries: 0, notModified: 0, failures: 0 };
+
+  constructor(options: HttpFetcherOptions = {}) {
+    this.maxConcurrency = options.maxConcurrency || 4;
+    this.hostSpacingMs = options.hostSpacingMs ?? 1000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseRetryDelayMs = options.baseRetryDelayMs || 500;
+    this.maxRetryDelayMs = options.maxRetryDelayMs || 30000;
+    this.timeout = options.timeout || 30000;
+    this.userAgent = options.userAgent || DEFAULT_USER_AGENT;
+    // robots.txt groups are matched against the product token, e.g. "NewsStorytellerBot"
+    this.agentToken = this.userAgent.split(/[\/\s]/)[0];
+    this.respectRobots = options.respectRobots ?? true;
+    this.robotsTtlMs = options.robotsTtlMs || 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * GET a URL as text, retrying transient failures
+   */
+  async fetchText(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+    const host = new URL(url).host;
+
+    // Validate before anything (robots.txt included) is requested from the host
+    const guard: UrlGuardOptions | undefined = options.publicOnly ? { allowedDomains: options.allowedDomains } : undefined;
+    if (guard) {
+      await assertPublicUrl(url, guard);
+    }
+    if (this.respectRobots) {
+      await this.assertAllowed(url, guard);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const cached = options.conditional ? this.validators.get(url) : undefined;
+
+      let status: number;
+      let retryAfterMs: number | null = null;
+      try {
+        const response = await this.withSlot(host, () => axios.get<string>(url, {
+          timeout: options.timeout || this.timeout,
+          responseType: 'text',
+          // Statuses are handled below so 304/429/5xx don't throw
+          validateStatus: () => true,
+          ...guardedRequestOptions(guard),
+          ...(options.maxBytes && { maxContentLength: options.maxBytes }),
+          headers: {
+            'User-Agent': this.userAgent,
+            'Accept': options.accept || 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+            'Accept-Language': 'en-US,en;q=0.5',
+            'Accept-Encoding': 'gzip, deflate',
+            ...(cached?.etag && { 'If-None-Match': cached.etag }),
+            ...(cached?.lastModified && { 'If-Modified-Since': cached.lastModified }),
+            ...options.headers
+          }
+        }));
+
+        status = response.status;
+
+        if (status === 304 && cached) {
+          this.stats.notModified++;
+          return { url, status, body: cached.body, notModified: true, attempts: attempt };
+        }
+
+        if (status >= 200 && status < 300) {
+          if (options.conditional) {
+            this.rememberValidators(url, response.headers, response.data);
+          }
+          return { url, status, body: response.data, notModified: false, attempts: attempt };
+        }
+
+        if (status !== 429 && status < 500) {
+          this.stats.failures++;
+          throw new HttpError(url, status);
+        }
+
+        retryAfterMs = parseRetryAfter(response.headers['retry-after']);
+      } catch (error) {
+        if (error instanceof HttpError) throw error;
+
+        // Surface guard and size failures as they are rather than as generic request errors.
+        // A refused redirect arrives wrapped by follow-redirects and then axios, and is never retried.
+        const refusal = findUnsafeUrlError(error);
+        if (refusal) {
+          this.stats.failures++;
+          throw refusal;
+        }
+        if (options.maxBytes && /maxContentLength/.test((error as Error).message)) {
+          this.stats.failures++;
+          throw new Error(`Response from ${url} is larger than ${options.maxBytes} bytes`);
+        }
+
+        const code = (error as { code?: string }).code;
+        if (!code || !RETRYABLE_CODES.has(code) || attempt > this.maxRetries) {
+          this.stats.failures++;
+          throw error;
+        }
+        status = 0;
+      }
+
+      if (attempt > this.maxRetries) {
+        this.stats.failures++;
+        throw new HttpError(url, status, `HTTP ${status} for ${url} after ${attempt} attempts`);
+      }
+
+      // Back off exponentially with jitter, or as long as the server asked
+      const backoff = Math.min(this.maxRetryDelayMs, this.baseRetryDelayMs * 2 ** (attempt - 1));
+      const delay = retryAfterMs !== null
+        ? Math.min(this.maxRetryDelayMs, retryAfterMs)
+        : Math.round(backoff / 2 + Math.random() * backoff / 2);
+
+      // A Retry-After applies to the whole host, not just this request
+      if (retryAfterMs !== null) {
+        this.nextSlotByHost.set(host, Math.max(this.nextSlotByHost.get(host) || 0, Date.now() + delay));
+      }
+
+      this.stats.retries++;
+      console.warn(`🔁 ${status ? `HTTP ${status}` : 'Network error'} for ${url}, retry ${attempt}/${this.maxRetries} in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Check a URL against its site's robots.txt without fetching it
+   */
+  async isAllowed(url: string): Promise<boolean> {
+    if (!this.respectRobots) return true;
+    const parsed = new URL(url);
+    const rules = await this.getRobots(parsed.origin);
+    return checkRobots(rules, this.agentToken, `${parsed.pathname}${parsed.search}`).allowed;
+  }
+
+  getUserAgent(): string {
+    return this.userAgent;
+  }
+
+  /**
+   * Request counters since startup
+   */
+  getStats(): { requests: number; retries: number; notModified: number; failures: number } {
+    return { ...this.stats };
+  }
+
+  /**
+   * Wait for a concurrency slot and the host's next start time, then run the request
+   */
+  private async withSlot<T>(host: string, request: () => Promise<T>): Promise<T> {
+    if (this.active >= this.maxConcurrency) {
+      // A finishing request hands its slot straight to us
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      // Reserve the next start time for this host before sleeping so parallel callers queue up
+      const now = Date.now();
+      const slot = Math.max(now, this.nextSlotByHost.get(host) || 0);
+      const spacing = Math.max(this.hostSpacingMs, (this.crawlDelayByHost.get(host) || 0) * 1000);
+      this.nextSlotByHost.set(host, slot + spacing);
+      if (slot > now) {
+        await sleep(slot - now);
+      }
+
+      this.stats.requests++;
+      return await request();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  private async assertAllowed(url: string, guard?: UrlGuardOptions): Promise<void> {
+    const parsed = new URL(url);
+    const rules = await this.getRobots(parsed.origin, guard);
+    const verdict = checkRobots(rules, this.agentToken, `${parsed.pathname}${parsed.search}`);
+
+    if (verdict.crawlDelay !== undefined) {
+      const crawlDelay = Math.min(verdict.crawlDelay, MAX_CRAWL_DELAY_SECONDS);
+      if (crawlDelay < verdict.crawlDelay && this.crawlDelayByHost.get(parsed.host) !== crawlDelay) {
+        console.warn(`🤖 robots.txt for ${parsed.host} asks for a ${verdict.crawlDelay}s crawl delay, using ${MAX_CRAWL_DELAY_SECONDS}s`);
+      }
+      this.crawlDelayByHost.set(parsed.host, crawlDelay);
+    }
+    if (!verdict.allowed) {
+      throw new RobotsDisallowedError(url, this.agentToken);
+    }
+  }
+
+  /**
+   * robots.txt rules for an origin, fetched once per TTL and shared by concurrent callers
+   */
+  private getRobots(origin: string, guard?: UrlGuardOptions): Promise<RobotsRules> {
+    const cached = this.robotsByOrigin.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rules;
+    }
+
+    const entry = { rules: Promise.resolve(ALLOW_ALL), expiresAt: Date.now() + this.robotsTtlMs };
+    entry.rules = this.fetchRobots(origin, entry, guard);
+    this.robotsByOrigin.set(origin, entry);
+    return entry.rules;
+  }
+
+  private async fetchRobots(origin: string, entry: { expiresAt: number }, guard?: UrlGuardOptions): Promise<RobotsRules> {
+    const robotsUrl = `${origin}/robots.txt`;
+
+    try {
+      const response = await this.withSlot(new URL(origin).host, () => axios.get<string>(robotsUrl, {
+        timeout: 10000,
+        responseType: 'text',
+        maxContentLength: 512 * 1024,
+        validateStatus: () => true,
+        ...guardedRequestOptions(guard),
+        headers: { 'User-Agent': this.userAgent, 'Accept': 'text/plain, */*;q=0.5' }
+      }));
+
+      if (response.status >= 200 && response.status < 300) {
+        return parseRobots(typeof response.data === 'string' ? response.data : '');
+      }
+      if (response.status < 500) {
+        // No robots.txt (or not ours to read): everything is allowed
+        return ALLOW_ALL;
+      }
+      console.warn(`🤖 robots.txt for ${origin} returned HTTP ${response.status}, treating the site as disallowed for now`);
+    } catch (error) {
+      console.warn(`🤖 Could not fetch robots.txt for ${origin}, treating the site as disallowed for now:`, error instanceof Error ? error.message : error);
+    }
+
+    // Unreachable robots.txt means full disallow (RFC 9309); check again soon
+    entry.expiresAt = Date.now() + ROBOTS_UNREACHABLE_TTL_MS;
+    return DISALLOW_ALL;
+  }
+
+  private rememberValidators(url: string, headers: Record<string, unknown>, body: string): void {
+    const etag = typeof headers.etag === 'string' ? headers.etag : undefined;
+    const lastModified = typeof headers['last-modified'] === 'string' ? headers['last-modified'] : undefined;
+    if (!etag && !lastModified) return;
+
+    // Re-insert so the Map's order tracks recency, then drop the oldest entries
+    this.validators.delete(url);
+    this.validators.set(url, { etag, lastModified, body });
+    while (this.validators.size > MAX_VALIDATORS) {
+      this.validators.delete(this.validators.keys().next().value as string);
+    }
+  }
+}
+
+/**
+ * axios options that keep a request and its redirects on public (and, if given, allowed) hosts
+ */
+function guardedRequestOptions(guard: UrlGuardOptions | undefined) {
+  if (!guard) return {};
+  return {
+    lookup: publicOnlyLookup,
+    beforeRedirect: (redirect: RedirectTarget) => checkRedirect(redirect, guard)
+  };
+}
+
+/**
+ * The UnsafeUrlError behind a request failure, looking through wrapping errors' causes
+ */
+function findUnsafeUrlError(error: unknown): UnsafeUrlError | undefined {
+  for (let current = error, depth = 0; current && depth < 5; depth++) {
+    if (current instanceof UnsafeUrlError) return current;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+/**
+ * Retry-After as milliseconds, from either delta-seconds or an HTTP date
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+let sharedFetcher: HttpFetcher | null = null;
+
+/**
+ * Fetcher shared by every news source, so concurrency and host spacing apply across all of them
+ */
+export function getHttpFetcher(): HttpFetcher {
+  if (!sharedFetcher) {
+    sharedFetcher = new HttpFetcher({
+      userAgent: process.env.SCRAPER_USER_AGENT || undefined,
+      respectRobots: process.env.SCRAPER_RESPECT_ROBOTS !== 'false',
+      maxConcurrency: Number(process.env.SCRAPE_MAX_CONCURRENCY) || undefined,
+      hostSpacingMs: process.env.SCRAPE_HOST_SPACING_MS ? Number(process.env.SCRAPE_HOST_SPACING_MS) : undefined
+    });
+  }
+  return sharedFetcher;
+}
+
+export default HttpFetcher;
@@ -0,0 +1,357 @@
+import fs from 'fs-extra';
+import path from 'path';
+import cron from 'node-cron';
+import { writeJsonAtomic } from './atomic-json';
+
+/**
+ * A scheduled job as defined in the jobs config file
+ */
+export interface JobConfig {
+  id: string;
+  name?: string;
+  /** Cron expression, e.g. "0 6 * * *" */
+  cron: string;
+  /** IANA timezone the cron expression is evaluated in */
+  timezone?: string;
+  /** Source ids to refresh; all configured sources when omitted */
+  sources?: string[];
+  enabled: boolean;
+}
+
+export interface JobRun {
+  jobId: string;
+  trigger: 'schedule' | 'manual';
+  status: 'success' | 'failure';
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  articles?: number;
+  error?: string;
+}
+
+export interface JobStatus extends JobConfig {
+  paused: boolean;
+  /** True while the cron task is active (enabled, not paused, valid schedule) */
+  isScheduled: boolean;
+  /** True while a run of this job is executing */
+  isRunning: boolean;
+  configError?: string;
+  lastRun: JobRun | null;
+  lastSuccess: JobRun | null;
+  lastFailure: JobRun | null;
+}
+
+export type JobRunner = (job: JobConfig) => Promise<{ articles?: number }>;
+
+interface SchedulerState {
+  paused: Record<string, boolean>;
+  history: JobRun[];
+}
+
+// Used when no jobs config file exists: the original 6 AM daily refresh
+export const DEFAULT_JOBS: JobConfig[] = [
+  {
+    id: 'morning-refresh',
+    name: 'Morning refresh',
+    cron: '0 6 * * *',
+    timezone: 'Asia/Kolkata',
+    enabled: true
+  }
+];
+
+const MAX_HISTORY_PER_JOB = 50;
+
+/**
+ * Runs refresh jobs from a JSON config file on their cron schedules, keeps a
+ * persisted run history and lets jobs be paused, resumed or triggered at runtime.
+ * Pauses are stored with the history so they survive restarts.
+ */
+class JobScheduler {
+  private configFile: string;
+  private stateFile: string;
+  private runner: JobRunner;
+  private jobs: JobConfig[] = [];
+  private configErrors = new Map<string, string>();
+  private tasks = new Map<string, cron.ScheduledTask>();
+  private running = new Set<string>();
+  private state: SchedulerState = { paused: {}, history: [] };
+  private stateWrites: Promise<void> = Promise.resolve();
+
+  constructor(runner: JobRunner, options: { configFile?: string; stateFile?: string } = {}) {
+    this.runner = runner;
+    this.configFile = options.configFile || process.env.NEWS_JOBS_CONFIG || path.join(process.cwd(), 'news-jobs.json');
+    this.stateFile = options.stateFile || path.join(process.cwd(), 'cache', 'jobs', 'job-state.json');
+  }
+
+  /**
+   * Load the config and persisted state, then schedule every enabled job
+   */
+  start(): void {
+    this.loadState();
+    const { jobs, errors } = this.loadConfig();
+    this.jobs = jobs;
+    this.configErrors = errors;
+    this.jobs.forEach(job => this.schedule(job));
+    console.log(`✅ Job scheduler started with ${this.tasks.size}/${this.jobs.length} jobs scheduled`);
+  }
+
+  /**
+   * Stop every cron task (jobs stay configured)
+   */
+  stop(): void {
+    this.tasks.forEach((task, id) => {
+      task.stop();
+      console.log(`⏹️ Stopped job: ${id}`);
+    });
+    this.tasks.clear();
+  }
+
+  /**
+   * Re-read the config file and reschedule. A config that can't be loaded throws
+   * before anything is stopped, so the current schedule keeps running.
+   */
+  reload(): JobStatus[] {
+    const { jobs, errors } = this.loadConfig();
+
+    this.stop();
+    this.jobs = jobs;
+    this.configErrors = errors;
+    this.jobs.forEach(job => this.schedule(job));
+    console.log(`🔄 Reloaded jobs config (${this.jobs.length} jobs)`);
+    return this.list();
+  }
+
+  has(id: string): boolean {
+    return this.jobs.some(job => job.id === id);
+  }
+
+  /**
+   * Every configured job with its schedule state and latest runs
+   */
+  list(): JobStatus[] {
+    return this.jobs.map(job => {
+      const runs = this.state.history.filter(run => run.jobId === job.id);
+      return {
+        ...job,
+        paused: !!this.state.paused[job.id],
+        isScheduled: this.tasks.has(job.id),
+        isRunning: this.running.has(job.id),
+        ...(this.configErrors.has(job.id) && { configError: this.configErrors.get(job.id) }),
+        lastRun: runs[runs.length - 1] || null,
+        lastSuccess: findLast(runs, run => run.status === 'success'),
+        lastFailure: findLast(runs, run => run.status === 'failure')
+      };
+    });
+  }
+
+  /**
+   * Run history, newest first
+   */
+  getHistory(id?: string, limit = 20): JobRun[] {
+    return this.state.history
+      .filter(run => !id || run.jobId === id)
+      .slice(-limit)
+      .reverse();
+  }
+
+  async pause(id: string): Promise<JobStatus> {
+    const job = this.getJob(id);
+    this.tasks.get(id)?.stop();
+    this.tasks.delete(id);
+    this.state.paused[id] = true;
+    await this.saveState();
+    console.log(`⏸️ Paused job: ${id}`);
+    return this.getStatus(job.id);
+  }
+
+  async resume(id: string): Promise<JobStatus> {
+    const job = this.getJob(id);
+    delete this.state.paused[id];
+    this.schedule(job);
+    await this.saveState();
+    console.log(`▶️ Resumed job: ${id}`);
+    return this.getStatus(job.id);
+  }
+
+  /**
+   * Run a job now, whether or not it is enabled or paused
+   */
+  async trigger(id: string): Promise<JobRun> {
+    return this.run(this.getJob(id), 'manual');
+  }
+
+  private schedule(job: JobConfig): void {
+    if (!job.enabled || this.state.paused[job.id] || this.configErrors.has(job.id) || this.tasks.has(job.id)) {
+      return;
+    }
+
+    try {
+      const task = cron.schedule(job.cron, () => {
+        this.run(job, 'schedule').catch(error => {
+          console.error(`❌ Job ${job.id} crashed:`, error);
+        });
+      }, {
+        scheduled: true,
+        ...(job.timezone && { timezone: job.timezone })
+      });
+      this.tasks.set(job.id, task);
+      console.log(`⏰ Scheduled job ${job.id}: ${job.cron}${job.timezone ? ` (${job.timezone})` : ''}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid schedule';
+      this.configErrors.set(job.id, message);
+      console.error(`❌ Could not schedule job ${job.id}: ${message}`);
+    }
+  }
+
+  private async run(job: JobConfig, trigger: JobRun['trigger']): Promise<JobRun> {
+    const started = Date.now();
+    this.running.add(job.id);
+    console.log(`🚀 Running job ${job.id} (${trigger})`);
+
+    let run: JobRun;
+    try {
+      const result = await this.runner(job);
+      run = {
+        jobId: job.id,
+        trigger,
+        status: 'success',
+        startedAt: new Date(started).toISOString(),
+        finishedAt: new Date().toISOString(),
+        durationMs: Date.now() - started,
+        ...(result.articles !== undefined && { articles: result.articles })
+      };
+      console.log(`✅ Job ${job.id} completed in ${run.durationMs}ms`);
+    } catch (error) {
+      run = {
+        jobId: job.id,
+        trigger,
+        status: 'failure',
+        startedAt: new Date(started).toISOString(),
+        finishedAt: new Date().toISOString(),
+        durationMs: Date.now() - started,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+      console.error(`❌ Job ${job.id} failed:`, error);
+    } finally {
+      this.running.delete(job.id);
+    }
+
+    this.recordRun(run);
+    await this.saveState();
+    return run;
+  }
+
+  private recordRun(run: JobRun): void {
+    this.state.history.push(run);
+
+    // Keep the newest runs of each job
+    const jobRuns = this.state.history.filter(entry => entry.jobId === run.jobId);
+    if (jobRuns.length > MAX_HISTORY_PER_JOB) {
+      const dropped = new Set(jobRuns.slice(0, jobRuns.length - MAX_HISTORY_PER_JOB));
+      this.state.history = this.state.history.filter(entry => !dropped.has(entry));
+    }
+  }
+
+  private getJob(id: string): JobConfig {
+    const job = this.jobs.find(entry => entry.id === id);
+    if (!job) {
+      throw new Error(`Unknown job: ${id}`);
+    }
+    return job;
+  }
+
+  private getStatus(id: string): JobStatus {
+    return this.list().find(status => status.id === id)!;
+  }
+
+  /**
+   * Parse and validate the config file without touching the current schedule.
+   * Jobs with an invalid cron expression are kept, with their error.
+   */
+  private loadConfig(): { jobs: JobConfig[]; errors: Map<string, string> } {
+    const errors = new Map<string, string>();
+
+    if (!fs.pathExistsSync(this.configFile)) {
+      console.log(`📋 No jobs config at ${this.configFile}, using the default morning refresh`);
+      return { jobs: DEFAULT_JOBS, errors };
+    }
+
+    const config = fs.readJsonSync(this.configFile);
+    const entries: unknown[] = Array.isArray(config) ? config : config?.jobs;
+    if (!Array.isArray(entries)) {
+      throw new Error(`Jobs config ${this.configFile} must contain a "jobs" array`);
+    }
+
+    const jobs = entries.map((entry, index) => parseJobConfig(entry, index));
+    const ids = new Set<string>();
+    for (const job of jobs) {
+      if (ids.has(job.id)) {
+        throw new Error(`Duplicate job id "${job.id}" in ${this.configFile}`);
+      }
+      ids.add(job.id);
+
+      if (!cron.validate(job.cron)) {
+        errors.set(job.id, `Invalid cron expression "${job.cron}"`);
+        console.error(`❌ Job ${job.id} has an invalid cron expression: ${job.cron}`);
+      }
+    }
+    return { jobs, errors };
+  }
+
+  private loadState(): void {
+    try {
+      if (fs.pathExistsSync(this.stateFile)) {
+        const state = fs.readJsonSync(this.stateFile);
+        this.state = {
+          paused: state.paused || {},
+          history: Array.isArray(state.history) ? state.history : []
+        };
+      }
+    } catch (error) {
+      console.error('❌ Error reading job state, starting with empty history:', error);
+    }
+  }
+
+  private async saveState(): Promise<void> {
+    // Serialize writes so overlapping runs don't interleave
+    const write = this.stateWrites.catch(() => undefined).then(async () => {
+      await fs.ensureDir(path.dirname(this.stateFile));
+      await writeJsonAtomic(this.stateFile, this.state, { spaces: 2 });
+    });
+    this.stateWrites = write;
+
+    try {
+      await write;
+    } catch (error) {
+      console.error('❌ Error saving job state:', error);
+    }
+  }
+}
+
+function parseJobConfig(entry: unknown, index: number): JobConfig {
+  const job = entry as Partial<JobConfig> | null;
+  if (!job || typeof job.id !== 'string' || !job.id || typeof job.cron !== 'string') {
+    throw new Error(`Job #${index} needs a string "id" and "cron"`);
+  }
+  if (job.sources !== undefined && (!Array.isArray(job.sources) || job.sources.some(id => typeof id !== 'string'))) {
+    throw new Error(`Job ${job.id}: "sources" must be an array of source ids`);
+  }
+
+  return {
+    id: job.id,
+    ...(job.name && { name: job.name }),
+    cron: job.cron,
+    ...(job.timezone && { timezone: job.timezone }),
+    ...(job.sources && { sources: job.sources }),
+    enabled: job.enabled !== false
+  };
+}
+
+function findLast<T>(items: T[], predicate: (item: T) => boolean): T | null {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return items[i];
+  }
+  return null;
+}
+
+export default JobScheduler;
@@ -0,0 +1,463 @@
+import OpenAI from 'openai';
+import type { ChatCompletionCreateParamsBase, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  /** Arguments as a JSON string */
+  arguments: string;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Tools an assistant message asked for */
+  toolCalls?: LLMToolCall[];
+  /** The call a tool message answers */
+  toolCallId?: string;
+}
+
+/**
+ * A function the model may call, described by a JSON schema
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  /** Falls back to the provider's default model */
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  tools?: LLMToolDefinition[];
+  /** 'none' keeps the tools visible but asks for a plain answer */
+  toolChoice?: 'auto' | 'none';
+}
+
+export interface LLMResponse {
+  content: string;
+  /** Model that actually answered */
+  model: string;
+  toolCalls?: LLMToolCall[];
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+/**
+ * A chat model backend the agents can talk to
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  /**
+   * Like complete(), passing answer text to `onText` as it is generated.
+   * Tool calls are not streamed; use it for rounds where tools can't be called.
+   */
+  stream?(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse>;
+}
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'ollama' | 'mock';
+
+const DEFAULT_MAX_TOKENS = 2000;
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  /** Any OpenAI-compatible endpoint (vLLM, LM Studio, Ollama, ...) */
+  baseURL?: string;
+  defaultModel?: string;
+  /** Pre-built client, mainly for tests */
+  client?: OpenAI;
+}
+
+/**
+ * OpenAI chat completions, or any server that speaks the same API
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  protected client: OpenAI;
+  protected defaultModel: string;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.client = options.client || new OpenAI({
+      apiKey: options.apiKey ?? process.env.OPENAI_API_KEY,
+      ...(options.baseURL && { baseURL: options.baseURL })
+    });
+    this.defaultModel = options.defaultModel || process.env.OPENAI_MODEL || 'gpt-4o';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.client.chat.completions.create({ ...this.buildParams(request), stream: false });
+
+    const message = response.choices[0]?.message;
+    const toolCalls = (message?.tool_calls || [])
+      .filter(call => call.type === 'function')
+      .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }));
+
+    return {
+      content: message?.content || '',
+      model: response.model,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      ...(response.usage && {
+        usage: { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+      })
+    };
+  }
+
+  async stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+    const stream = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+
+    let content = '';
+    let model = request.model || this.defaultModel;
+    let usage: LLMResponse['usage'];
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) {
+        content += text;
+        onText(text);
+      }
+      if (chunk.usage) {
+        usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+      }
+    }
+
+    return { content, model, ...(usage && { usage }) };
+  }
+
+  private buildParams(request: LLMRequest): ChatCompletionCreateParamsBase {
+    return {
+      model: request.model || this.defaultModel,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+        })),
+        tool_choice: request.toolChoice || 'auto'
+      }),
+      messages: request.messages.map(toOpenAIMessage)
+    };
+  }
+}
+
+function toOpenAIMessage(message: LLMMessage): ChatCompletionMessageParam {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId || '', content: message.content };
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+/**
+ * Local models served by Ollama through its OpenAI-compatible endpoint
+ */
+export class OllamaProvider extends OpenAIProvider {
+  readonly name: string = 'ollama';
+
+  constructor(options: Omit<OpenAIProviderOptions, 'apiKey'> = {}) {
+    super({
+      ...options,
+      // Ollama ignores the key, but the client requires one
+      apiKey: 'ollama',
+      baseURL: options.baseURL || process.env.OLLAMA_BASE_URL || 'http://localhost:11434/v1',
+      defaultModel: options.defaultModel || process.env.OLLAMA_MODEL || 'llama3.1'
+    });
+  }
+}
+
+export interface AnthropicProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  defaultModel?: string;
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private apiKey: string;
+  private baseURL: string;
+  private defaultModel: string;
+
+  constructor(options: AnthropicProviderOptions = {}) {
+    this.apiKey = options.apiKey ?? process.env.ANTHROPIC_API_KEY ?? '';
+    this.baseURL = (options.baseURL || process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com').replace(/\/$/, '');
+    this.defaultModel = options.defaultModel || process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post(request, false);
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(`Anthropic request failed (HTTP ${response.status}): ${data?.error?.message || response.statusText}`);
+    }
+
+    const blocks: AnthropicBlock[] = data.content || [];
+    const toolCalls = blocks
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({ id: block.id as string, name: block.name as string, arguments: JSON.stringify(block.input ?? {}) }));
+
+    return {
+      content: blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
+      model: data.model,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      ...(data.usage && {
+        usage: { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens }
+      })
+    };
+  }
+
+  async stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+    const response = await this.post(request, true);
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      throw new Error(`Anthropic request failed (HTTP ${response.status}): ${data?.error?.message || response.statusText}`);
+    }
+
+    let content = '';
+    let model = request.model || this.defaultModel;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    // Server-sent events: only the data lines are needed, each carries its type
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const event = JSON.parse(line.slice(5));
+
+        if (event.type === 'message_start') {
+          model = event.message?.model || model;
+          inputTokens = event.message?.usage?.input_tokens || 0;
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          content += event.delta.text;
+          onText(event.delta.text);
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage?.output_tokens || outputTokens;
+        } else if (event.type === 'error') {
+          throw new Error(`Anthropic stream failed: ${event.error?.message || 'unknown error'}`);
+        }
+      }
+      if (done) break;
+    }
+
+    return { content, model, usage: { inputTokens, outputTokens } };
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    if (!this.apiKey) {
+      throw new Error('ANTHROPIC_API_KEY is not set');
+    }
+
+    // System prompts go in a separate field, not in the message list
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const messages = toAnthropicMessages(request.messages.filter(message => message.role !== 'system'));
+
+    return fetch(`${this.baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: request.model || this.defaultModel,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(system && { system }),
+        ...(request.tools?.length && {
+          tools: request.tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+          tool_choice: { type: request.toolChoice || 'auto' }
+        }),
+        ...(stream && { stream: true }),
+        messages
+      })
+    });
+  }
+}
+
+interface AnthropicBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string;
+}
+
+/**
+ * Tool calls become tool_use blocks and tool results become tool_result blocks in
+ * a user turn; consecutive results share one turn as the API requires
+ */
+function toAnthropicMessages(messages: LLMMessage[]): { role: 'user' | 'assistant'; content: string | AnthropicBlock[] }[] {
+  const result: { role: 'user' | 'assistant'; content: string | AnthropicBlock[] }[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      const block: AnthropicBlock = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = result[result.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+    } else if (message.role === 'assistant' && message.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: parseArguments(call.arguments) }))
+        ]
+      });
+    } else {
+      result.push({ role: message.role === 'assistant' ? 'assistant' : 'user', content: message.content });
+    }
+  }
+  return result;
+}
+
+function parseArguments(json: string): unknown {
+  try {
+    return JSON.parse(json || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * A scripted answer: text, or tool calls (arguments may be given as an object)
+ */
+export type ScriptedAnswer =
+  | string
+  | { content?: string; toolCalls?: { id?: string; name: string; arguments?: string | Record<string, unknown> }[] };
+
+/**
+ * A scripted reply: answers are used in order, matchers answer any request whose
+ * messages contain the text, match the pattern or pass the predicate
+ */
+export type ScriptedReply = ScriptedAnswer | ScriptedRule;
+
+export interface ScriptedRule {
+  match: string | RegExp | ((request: LLMRequest) => boolean);
+  reply: ScriptedAnswer | ((request: LLMRequest) => ScriptedAnswer);
+}
+
+/**
+ * Deterministic provider for tests and offline runs. Matching rules are tried
+ * first, then queued replies; once those run out it answers with a fixed
+ * string derived from the request. Every request is kept in `calls`.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly calls: LLMRequest[] = [];
+  private queue: ScriptedAnswer[];
+  private rules: ScriptedRule[];
+
+  constructor(script: ScriptedReply[] = []) {
+    this.queue = script.filter((reply): reply is ScriptedAnswer => typeof reply === 'string' || !('match' in reply));
+    this.rules = script.filter((reply): reply is ScriptedRule => typeof reply !== 'string' && 'match' in reply);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.calls.push(request);
+    const model = request.model || 'scripted';
+    const text = request.messages.map(message => message.content).join('\n');
+
+    const rule = this.rules.find(({ match }) => {
+      if (typeof match === 'function') return match(request);
+      return typeof match === 'string' ? text.includes(match) : match.test(text);
+    });
+    if (rule) {
+      return this.toResponse(typeof rule.reply === 'function' ? rule.reply(request) : rule.reply, request, model);
+    }
+
+    const queued = this.queue.shift();
+    if (queued !== undefined) {
+      return this.toResponse(queued, request, model);
+    }
+
+    const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+    const firstLine = (lastUser?.content || '').split('\n')[0].slice(0, 80);
+    return { content: `Scripted reply #${this.calls.length} to: ${firstLine}`, model };
+  }
+
+  /**
+   * Answers like complete(), handing the text over a word at a time
+   */
+  async stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+    const response = await this.complete(request);
+    for (const word of response.content.match(/\S+\s*|\s+/g) || []) {
+      onText(word);
+    }
+    return response;
+  }
+
+  private toResponse(answer: ScriptedAnswer, request: LLMRequest, model: string): LLMResponse {
+    if (typeof answer === 'string') {
+      return { content: answer, model };
+    }
+
+    // Like a real model, only call tools that were offered and allowed
+    const toolCalls = request.tools?.length && request.toolChoice !== 'none'
+      ? (answer.toolCalls || []).map((call, index) => ({
+          id: call.id || `call_${this.calls.length}_${index + 1}`,
+          name: call.name,
+          arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments || {})
+        }))
+      : [];
+
+    return { content: answer.content || '', model, ...(toolCalls.length > 0 && { toolCalls }) };
+  }
+}
+
+/**
+ * Provider chosen by LLM_PROVIDER (openai, anthropic, ollama or mock; default openai)
+ */
+export function createLLMProvider(name: string = process.env.LLM_PROVIDER || 'openai'): LLMProvider {
+  switch (name.trim().toLowerCase() as LLMProviderName) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'ollama':
+      return new OllamaProvider();
+    case 'mock':
+      return new ScriptedProvider();
+    default:
+      throw new Error(`Unknown LLM provider "${name}", expected openai, anthropic, ollama or mock`);
+  }
+}
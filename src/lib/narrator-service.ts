@@ -0,0 +1,260 @@
+import { initializeCrew, type AgentModelSettings, type CrewEvent, type NarratorCrewOptions } from './ai-agents';
+import { scrapeArticle, type ScrapedArticle } from './article-scraper';
+import { getCacheStorage, type CacheStorage } from './cache-storage';
+import ArticleContentStore from './content-store';
+import type { TextFetcher } from './http-fetcher';
+import type { LLMProvider } from './llm-provider';
+import { DEFAULT_PERSONA_ID, personaRegistry, type NarratorPersona, type PersonaRegistry } from './personas';
+import { assertPublicUrl, getAllowedDomains, UnsafeUrlError } from './url-guard';
+
+/**
+ * A narration request that can't be served, with the HTTP status to answer with
+ */
+export class NarrationError extends Error {
+  constructor(message: string, public status: number, public reason?: string) {
+    super(message);
+    this.name = 'NarrationError';
+  }
+}
+
+export interface NarrationResult {
+  success: true;
+  news_link: string;
+  title: string;
+  persona: { id: string; name: string; title: string };
+  narration: string;
+  /** @deprecated Use narration. Only set for the default persona, for clients written before personas */
+  roald_dahl_narration?: string;
+  article_content: string;
+  article_metadata: {
+    authors: string[];
+    published_at: string | null;
+    modified_at: string | null;
+    section: string | null;
+    site_name: string | null;
+    canonical_url: string | null;
+    image_url: string | null;
+    keywords: string[];
+    word_count: number | null;
+    extraction_strategy: string | null;
+  };
+  timestamp: string;
+  cached?: boolean;
+}
+
+// Progress of a narration: crew events plus the steps before the agents start
+export type NarrationEvent =
+  | CrewEvent
+  | { type: 'status'; message: string }
+  | {
+    type: 'article';
+    title: string;
+    source: 'prefetched' | 'scraped';
+    wordCount: number | null;
+    persona: NarrationResult['persona'];
+  };
+
+/**
+ * Model settings for one agent from NARRATOR_<AGENT>_MODEL, _MAX_TOKENS and _TEMPERATURE
+ */
+function agentSettingsFromEnv(agent: 'HISTORY' | 'SUMMARY' | 'STORYTELLER'): AgentModelSettings | undefined {
+  const model = process.env[`NARRATOR_${agent}_MODEL`];
+  const maxTokens = Number(process.env[`NARRATOR_${agent}_MAX_TOKENS`]) || undefined;
+  const temperatureSetting = process.env[`NARRATOR_${agent}_TEMPERATURE`];
+  const temperature = temperatureSetting && !isNaN(Number(temperatureSetting)) ? Number(temperatureSetting) : undefined;
+
+  // Only set keys, so unset ones keep the agent's defaults
+  const settings: AgentModelSettings = {
+    ...(model && { model }),
+    ...(maxTokens && { maxTokens }),
+    ...(temperature !== undefined && { temperature })
+  };
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+/**
+ * Narrator Service - checks the link, reuses cached narrations, reads the article
+ * and runs the agent crew over it
+ */
+class NarratorService {
+  private storage: CacheStorage;
+  private contentStore: ArticleContentStore;
+  private provider?: LLMProvider;
+  private fetcher?: TextFetcher;
+  private personas: PersonaRegistry;
+  private agents: NarratorCrewOptions['agents'];
+
+  constructor(options: {
+    storage?: CacheStorage;
+    contentStore?: ArticleContentStore;
+    /** Defaults to the provider named by LLM_PROVIDER */
+    provider?: LLMProvider;
+    fetcher?: TextFetcher;
+    personas?: PersonaRegistry;
+    /** Model settings per agent; defaults to the NARRATOR_<AGENT>_* env variables */
+    agents?: NarratorCrewOptions['agents'];
+  } = {}) {
+    // Narrations are cached in the configured storage backend (file or SQLite)
+    this.storage = options.storage || getCacheStorage();
+    // Article bodies prefetched by the news service
+    this.contentStore = options.contentStore || new ArticleContentStore();
+    this.provider = options.provider;
+    this.fetcher = options.fetcher;
+    this.personas = options.personas || personaRegistry;
+    this.agents = options.agents || {
+      history: agentSettingsFromEnv('HISTORY'),
+      summary: agentSettingsFromEnv('SUMMARY'),
+      storyteller: agentSettingsFromEnv('STORYTELLER')
+    };
+  }
+
+  /**
+   * Persona by id (the default persona when omitted). Throws NarrationError for unknown ids.
+   */
+  getPersona(id?: string): NarratorPersona {
+    try {
+      return this.personas.get(id || undefined);
+    } catch (error) {
+      throw new NarrationError(error instanceof Error ? error.message : String(error), 400);
+    }
+  }
+
+  /**
+   * Cached narration for a link in the given persona's voice, or null
+   */
+  async getCached(newsLink: string, personaId?: string): Promise<NarrationResult | null> {
+    const persona = this.getPersona(personaId);
+    try {
+      const cachedData = await this.storage.getNarration<NarrationResult>(newsLink, persona.id);
+      if (cachedData) {
+        // Narrations cached before personas existed only have roald_dahl_narration
+        const { roald_dahl_narration, ...narration } = cachedData;
+        return withLegacyNarration({
+          ...narration,
+          persona: narration.persona || { id: persona.id, name: persona.name, title: persona.title },
+          narration: narration.narration ?? roald_dahl_narration ?? '',
+          cached: true
+        });
+      }
+    } catch (error) {
+      console.error('Error reading cache:', error);
+    }
+    return null;
+  }
+
+  /**
+   * Narrate an article in a persona's voice, answering from the cache when possible.
+   * Throws NarrationError for unknown personas and links that are unsafe or can't be read.
+   */
+  async narrate(
+    newsLink: string,
+    options: { persona?: string; onEvent?: (event: NarrationEvent) => void } = {}
+  ): Promise<NarrationResult> {
+    const { onEvent } = options;
+    const persona = this.getPersona(options.persona);
+
+    // The server fetches this link, so keep it off internal hosts (and on allowed domains)
+    try {
+      await assertPublicUrl(newsLink, { allowedDomains: getAllowedDomains() });
+    } catch (error) {
+      if (error instanceof UnsafeUrlError) {
+        console.warn('🚫 Rejected news_link:', error.message);
+        throw new NarrationError(error.message, 400);
+      }
+      throw error;
+    }
+
+    const cached = await this.getCached(newsLink, persona.id);
+    if (cached) {
+      console.log('🎯 Returning cached narration');
+      return cached;
+    }
+
+    console.log(`🚀 Starting AI narration (${persona.id}) for:`, newsLink);
+    onEvent?.({ type: 'status', message: 'Reading the article' });
+
+    // Use the prefetched article body if we have one, otherwise scrape it now
+    let articleData: ScrapedArticle | null = await this.contentStore.getByUrl(newsLink);
+    const source = articleData ? 'prefetched' : 'scraped';
+    if (articleData) {
+      console.log('📚 Using prefetched article content');
+    } else {
+      console.log('📄 Scraping article content...');
+      articleData = await scrapeArticle(newsLink, { fetcher: this.fetcher, allowedDomains: getAllowedDomains() });
+    }
+
+    if (!articleData.success || !articleData.content) {
+      throw new NarrationError(
+        'Failed to scrape article content. The article may be behind a paywall or unavailable.',
+        400,
+        articleData.error
+      );
+    }
+
+    console.log(`📝 Article scraped: "${articleData.title}" (${articleData.content.length} chars)`);
+    onEvent?.({
+      type: 'article',
+      title: articleData.title,
+      source,
+      wordCount: articleData.wordCount || null,
+      persona: { id: persona.id, name: persona.name, title: persona.title }
+    });
+
+    // Initialize AI agents with the actual article content
+    const { crew } = initializeCrew(newsLink, articleData.content, articleData.title, articleData, {
+      provider: this.provider,
+      persona,
+      agents: this.agents
+    });
+
+    // History and summary run in parallel, the story waits for both
+    const { finalOutput } = await crew.kickoff({ onEvent });
+
+    // Extract title from scraped article or use a default
+    const urlObj = new URL(newsLink);
+    const title = articleData.title || urlObj.hostname.split('.')[0] || 'News Article';
+
+    const result: NarrationResult = withLegacyNarration({
+      success: true,
+      news_link: newsLink,
+      title: `${title} - ${persona.title}`,
+      persona: { id: persona.id, name: persona.name, title: persona.title },
+      narration: finalOutput,
+      article_content: articleData.content.substring(0, 1000) + (articleData.content.length > 1000 ? '...' : ''), // Include preview of article content
+      article_metadata: {
+        authors: articleData.authors || [],
+        published_at: articleData.publishedAt || null,
+        modified_at: articleData.modifiedAt || null,
+        section: articleData.section || null,
+        site_name: articleData.siteName || null,
+        canonical_url: articleData.canonicalUrl || null,
+        image_url: articleData.imageUrl || null,
+        keywords: articleData.keywords || [],
+        word_count: articleData.wordCount || null,
+        extraction_strategy: articleData.extractionStrategy || null
+      },
+      timestamp: new Date().toISOString()
+    });
+
+    // A failed cache write shouldn't cost the reader their story
+    try {
+      await this.storage.storeNarration(newsLink, result, persona.id);
+    } catch (error) {
+      console.error('Error saving to cache:', error);
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Add the deprecated roald_dahl_narration field to default persona results
+ */
+function withLegacyNarration(result: NarrationResult): NarrationResult {
+  if (result.persona.id !== DEFAULT_PERSONA_ID) {
+    return result;
+  }
+  return { ...result, roald_dahl_narration: result.narration };
+}
+
+export default NarratorService;
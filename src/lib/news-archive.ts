@@ -0,0 +1,164 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { quarantineFile, writeJsonAtomic } from './atomic-json';
+import type { ArchivedArticle, ArchiveQuery, ArchiveStats, NewsArticle } from './types';
+
+/**
+ * Append-only archive of every article ever scraped, keyed by URL.
+ * Each entry remembers when it was first and last seen in a refresh,
+ * so news can be queried for any past date or range.
+ */
+class NewsArchive {
+  private archiveDir: string;
+  private archiveFile: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: { archiveDir?: string } = {}) {
+    this.archiveDir = options.archiveDir || path.join(process.cwd(), 'cache', 'archive');
+    this.archiveFile = path.join(this.archiveDir, 'articles.json');
+
+    fs.ensureDirSync(this.archiveDir);
+  }
+
+  /**
+   * Add new articles and update the last-seen time of known ones
+   */
+  async recordArticles(articles: NewsArticle[], seenAt: string = new Date().toISOString()): Promise<{ added: number; updated: number }> {
+    let result = { added: 0, updated: 0 };
+
+    // Serialize read-modify-write cycles on the archive file
+    const write = this.writes.catch(() => undefined).then(async () => {
+      const archive = await this.readArchive();
+      let added = 0;
+      let updated = 0;
+
+      for (const article of articles) {
+        const existing = archive[article.url];
+        if (existing) {
+          archive[article.url] = {
+            ...existing,
+            ...article,
+            firstSeenAt: existing.firstSeenAt,
+            lastSeenAt: seenAt,
+            seenCount: existing.seenCount + 1
+          };
+          updated++;
+        } else {
+          archive[article.url] = {
+            ...article,
+            firstSeenAt: seenAt,
+            lastSeenAt: seenAt,
+            seenCount: 1
+          };
+          added++;
+        }
+      }
+
+      await writeJsonAtomic(this.archiveFile, archive);
+      result = { added, updated };
+    });
+
+    this.writes = write;
+    await write;
+    console.log(`🗄️ Archived ${result.added} new and ${result.updated} known articles`);
+    return result;
+  }
+
+  /**
+   * Articles that were published or live in the feed during the requested range,
+   * newest first
+   */
+  async query(query: ArchiveQuery = {}): Promise<ArchivedArticle[]> {
+    const { from, to } = resolveRange(query);
+    const archive = await this.readArchive();
+
+    return Object.values(archive)
+      .filter(article => {
+        const published = new Date(article.publishedAt).getTime();
+        const firstSeen = new Date(article.firstSeenAt).getTime();
+        const lastSeen = new Date(article.lastSeenAt).getTime();
+
+        const publishedInRange = published >= from && published <= to;
+        const liveInRange = firstSeen <= to && lastSeen >= from;
+        return publishedInRange || liveInRange;
+      })
+      .filter(article => !query.category || article.category.toLowerCase() === query.category.toLowerCase())
+      .filter(article => !query.source || article.sourceId === query.source || article.source === query.source)
+      .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
+      .slice(0, query.limit || undefined);
+  }
+
+  /**
+   * Look up an archived article by URL
+   */
+  async getByUrl(url: string): Promise<ArchivedArticle | null> {
+    const archive = await this.readArchive();
+    return archive[url] || null;
+  }
+
+  /**
+   * Archive size and the time span it covers
+   */
+  async getStats(): Promise<ArchiveStats> {
+    const articles = Object.values(await this.readArchive());
+    if (articles.length === 0) {
+      return { totalArticles: 0, oldestSeenAt: null, newestSeenAt: null };
+    }
+
+    const firstSeen = articles.map(article => article.firstSeenAt).sort();
+    const lastSeen = articles.map(article => article.lastSeenAt).sort();
+    return {
+      totalArticles: articles.length,
+      oldestSeenAt: firstSeen[0],
+      newestSeenAt: lastSeen[lastSeen.length - 1]
+    };
+  }
+
+  private async readArchive(): Promise<Record<string, ArchivedArticle>> {
+    try {
+      if (!await fs.pathExists(this.archiveFile)) {
+        return {};
+      }
+      return await fs.readJson(this.archiveFile);
+    } catch (error) {
+      // Move a corrupt archive aside so the next write doesn't replace it with a partial one
+      console.error('❌ Error reading news archive:', error);
+      await quarantineFile(this.archiveFile, 'unreadable JSON');
+      return {};
+    }
+  }
+}
+
+/**
+ * Turn a date (YYYY-MM-DD, whole local day) or from/to pair into epoch bounds
+ */
+export function resolveRange(query: ArchiveQuery): { from: number; to: number } {
+  if (query.date) {
+    const start = new Date(`${query.date}T00:00:00`);
+    if (isNaN(start.getTime())) {
+      throw new Error(`Invalid date: ${query.date}. Use YYYY-MM-DD`);
+    }
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+    return { from: start.getTime(), to: end.getTime() - 1 };
+  }
+
+  const from = query.from
+    ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(query.from) ? `${query.from}T00:00:00` : query.from).getTime()
+    : 0;
+  let to = query.to ? new Date(query.to).getTime() : Date.now();
+
+  // A bare end date includes that whole day
+  if (query.to && /^\d{4}-\d{2}-\d{2}$/.test(query.to)) {
+    const end = new Date(`${query.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    to = end.getTime() - 1;
+  }
+
+  if (isNaN(from) || isNaN(to)) {
+    throw new Error('Invalid from/to range. Use ISO dates such as 2026-10-12 or 2026-10-12T06:00:00Z');
+  }
+  return { from, to };
+}
+
+export default NewsArchive;
@@ -0,0 +1,70 @@
+import type { NewsArticle, NewsChangeSet, NewsChanges, TitleChange } from './types';
+
+/**
+ * Compare two snapshots by article URL
+ */
+export function diffArticles(previous: NewsArticle[], current: NewsArticle[], at: string): NewsChangeSet {
+  const previousByUrl = new Map(previous.map(article => [article.url, article]));
+  const currentUrls = new Set(current.map(article => article.url));
+
+  const added: string[] = [];
+  const titleChanged: TitleChange[] = [];
+
+  for (const article of current) {
+    const before = previousByUrl.get(article.url);
+    if (!before) {
+      added.push(article.url);
+    } else if (before.title !== article.title) {
+      titleChanged.push({ url: article.url, previousTitle: before.title, title: article.title });
+    }
+  }
+
+  const removed = previous
+    .filter(article => !currentUrls.has(article.url))
+    .map(article => article.url);
+
+  return { at, added, removed, titleChanged };
+}
+
+/**
+ * Fold consecutive change sets (oldest first) into the net change since `since`:
+ * a story that came and went is dropped, a story that went and came back is unchanged
+ */
+export function mergeChangeSets(changeSets: NewsChangeSet[], since: string): NewsChanges {
+  const added = new Set<string>();
+  const removed = new Set<string>();
+  const titleChanged = new Map<string, TitleChange>();
+
+  for (const changeSet of changeSets) {
+    for (const url of changeSet.added) {
+      if (removed.has(url)) {
+        removed.delete(url);
+      } else {
+        added.add(url);
+      }
+    }
+
+    for (const url of changeSet.removed) {
+      if (added.has(url)) {
+        added.delete(url);
+      } else {
+        removed.add(url);
+      }
+      titleChanged.delete(url);
+    }
+
+    for (const change of changeSet.titleChanged) {
+      const earlier = titleChanged.get(change.url);
+      titleChanged.set(change.url, { ...change, previousTitle: earlier?.previousTitle ?? change.previousTitle });
+    }
+  }
+
+  return {
+    since,
+    refreshes: changeSets.length,
+    added: Array.from(added),
+    removed: Array.from(removed),
+    titleChanged: Array.from(titleChanged.values())
+      .filter(change => !added.has(change.url) && change.previousTitle !== change.title)
+  };
+}
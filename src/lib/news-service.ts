@@ -1,38 +1,89 @@
-import ABCNewsScraper from './scraper';
+import path from 'path';
 import CacheManager from './cache';
-import cron from 'node-cron';
-import type { ScrapedNewsData, NewsData, CacheInfo } from './types';
+import type { CacheStorage } from './cache-storage';
+import ArticleContentStore from './content-store';
+import { scrapeArticle } from './article-scraper';
+import { mapWithConcurrency } from './concurrency';
+import { diffArticles, mergeChangeSets } from './news-diff';
+import { detectAnomalies, SCRAPE_HEALTH_HISTORY } from './scrape-health';
+import { acquireLock, waitForLockRelease } from './file-lock';
+import JobScheduler, { type JobConfig, type JobStatus } from './job-scheduler';
+import { newsSourceRegistry, getConfiguredSourceIds, type NewsSourceRegistry } from './source-registry';
+import type { IngestionMode, NewsSource } from './news-source';
+import type { ScrapedNewsData, NewsArticle, CacheInfo, ArchivedArticle, ArchiveQuery, NewsChanges, ScrapeRun, SourceScrapeMetrics } from './types';
+
+type RefreshResult = ScrapedNewsData & { fromCache: boolean; freshlyScraped: boolean };
+
+// Key of a full scrape in the pending scrapes
+const ALL_SOURCES = '*';
 
 /**
  * News Service - Manages news scraping, caching, and scheduling
  */
 class NewsService {
-  private scraper: ABCNewsScraper;
+  private sources: NewsSource[];
+  private registry: NewsSourceRegistry;
   private cache: CacheManager;
-  private isScrapingInProgress: boolean;
-  private scheduledJobs: Array<{
-    name: string;
-    schedule: string;
-    job: cron.ScheduledTask;
-    startedAt: string;
-  }>;
+  private contentStore: ArticleContentStore;
+  private storage: CacheStorage;
+  private inFlightScrape: Promise<RefreshResult> | null;
+  private pendingScrapes: Map<string, Promise<RefreshResult>>;
+  private refreshLockFile: string;
+  private refreshLockTtl: number;
+  private staleWhileRevalidate: boolean;
+  private cacheHardMaxAge: number;
+  private prefetchContent: boolean;
+  private prefetchConcurrency: number;
+  private prefetchStatus: {
+    inProgress: boolean;
+    lastRunAt: string | null;
+    lastFetched: number;
+    lastFailed: number;
+  };
+  private scheduler: JobScheduler;
 
   constructor(options: {
     maxArticles?: number;
     timeout?: number;
     cacheMaxAge?: number;
+    /** Serve an expired cache immediately while refreshing in the background (off by default) */
+    staleWhileRevalidate?: boolean;
+    /** Age after which an expired cache is no longer served and requests wait for a scrape */
+    cacheHardMaxAge?: number;
     autoSchedule?: boolean;
+    sources?: string[];
+    registry?: NewsSourceRegistry;
+    prefetchContent?: boolean;
+    prefetchConcurrency?: number;
+    jobsConfig?: string;
+    refreshLockTtl?: number;
   } = {}) {
-    this.scraper = new ABCNewsScraper();
+    this.registry = options.registry || newsSourceRegistry;
+    this.sources = this.registry.createSources(options.sources || getConfiguredSourceIds());
     this.cache = new CacheManager({
       maxAge: options.cacheMaxAge || 24 * 60 * 60 * 1000 // 24 hours
     });
-    this.isScrapingInProgress = false;
-    this.scheduledJobs = [];
-
-    // Auto-start morning refresh scheduler
+    this.contentStore = new ArticleContentStore();
+    this.storage = this.cache.getStorage();
+    this.inFlightScrape = null;
+    this.pendingScrapes = new Map();
+    this.refreshLockFile = path.join(process.cwd(), 'cache', 'refresh.lock');
+    this.refreshLockTtl = options.refreshLockTtl || 10 * 60 * 1000; // 10 minutes
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? process.env.NEWS_STALE_WHILE_REVALIDATE === 'true';
+    this.cacheHardMaxAge = options.cacheHardMaxAge
+      || Number(process.env.NEWS_CACHE_HARD_MAX_AGE_HOURS || 72) * 60 * 60 * 1000; // 3 days
+    this.prefetchContent = options.prefetchContent ?? process.env.PREFETCH_ARTICLE_CONTENT === 'true';
+    this.prefetchConcurrency = options.prefetchConcurrency || 3;
+    this.prefetchStatus = { inProgress: false, lastRunAt: null, lastFetched: 0, lastFailed: 0 };
+    this.scheduler = new JobScheduler(job => this.runJob(job), { configFile: options.jobsConfig });
+
+    // Auto-start the refresh jobs from the jobs config
     if (options.autoSchedule !== false) {
-      this.scheduleMorningRefresh();
+      try {
+        this.scheduler.start();
+      } catch (error) {
+        console.error('❌ Failed to start job scheduler:', error);
+      }
     }
   }
 
@@ -44,10 +95,14 @@ class NewsService {
 
     try {
       // If force refresh or scraping in progress, wait for fresh data
-      if (forceRefresh || this.isScrapingInProgress) {
-        console.log('🔄 Force refresh requested or scraping in progress...');
+      if (forceRefresh) {
+        console.log('🔄 Force refresh requested...');
         return await this.scrapeAndCache();
       }
+      if (this.inFlightScrape) {
+        console.log('🔄 Scraping in progress, waiting for it...');
+        return await this.inFlightScrape;
+      }
 
       // Try to get from cache first
       if (useCache) {
@@ -56,6 +111,18 @@ class NewsService {
           console.log('📰 Returning cached news data');
           return cachedNews;
         }
+
+        // Expired but not too old: answer now and refresh in the background
+        if (this.staleWhileRevalidate) {
+          const staleNews = await this.cache.getNews(true);
+          if (staleNews && Date.now() - new Date(staleNews.cacheInfo.lastUpdated).getTime() <= this.cacheHardMaxAge) {
+            console.log('⚡ Serving stale cache while refreshing in the background');
+            this.scrapeAndCache().catch(error => {
+              console.error('❌ Background refresh failed:', error);
+            });
+            return { ...staleNews, isStale: true };
+          }
+        }
       }
 
       // Cache miss or expired - scrape fresh data
@@ -106,6 +173,14 @@ class NewsService {
       isInProgress: boolean;
       scheduledJobs: number;
     };
+    prefetch: {
+      enabled: boolean;
+      inProgress: boolean;
+      lastRunAt: string | null;
+      lastFetched: number;
+      lastFailed: number;
+      storedArticles: number;
+    };
   } | { error: string }> {
     try {
       const status = await this.cache.getCacheStatus();
@@ -115,8 +190,13 @@ class NewsService {
         cache: status,
         metadata: metadata,
         scraping: {
-          isInProgress: this.isScrapingInProgress,
-          scheduledJobs: this.scheduledJobs.length
+          isInProgress: this.inFlightScrape !== null,
+          scheduledJobs: this.scheduler.list().filter(job => job.isScheduled).length
+        },
+        prefetch: {
+          enabled: this.prefetchContent,
+          ...this.prefetchStatus,
+          storedArticles: await this.contentStore.count()
         }
       };
     } catch (error) {
@@ -126,126 +206,145 @@ class NewsService {
   }
 
   /**
-   * Schedule morning refresh (6 AM daily)
+   * Stop all scheduled jobs
    */
-  scheduleMorningRefresh(): cron.ScheduledTask {
-    console.log('⏰ Scheduling daily morning refresh at 6:00 AM...');
-
-    // Schedule daily at 6 AM
-    const morningJob = cron.schedule('0 6 * * *', async () => {
-      console.log('🌅 Morning refresh triggered at 6:00 AM');
-      try {
-        await this.scrapeAndCache();
-        console.log('✅ Morning refresh completed successfully');
-      } catch (error) {
-        console.error('❌ Morning refresh failed:', error);
-      }
-    }, {
-      scheduled: true,
-      timezone: "Asia/Kolkata" // Adjust timezone as needed
-    });
-
-    this.scheduledJobs.push({
-      name: 'morning-refresh',
-      schedule: '0 6 * * *',
-      job: morningJob,
-      startedAt: new Date().toISOString()
-    });
-
-    console.log('✅ Morning refresh scheduled successfully');
-    return morningJob;
+  stopScheduledJobs(): void {
+    console.log('🛑 Stopping all scheduled jobs...');
+    this.scheduler.stop();
+    console.log('✅ All scheduled jobs stopped');
   }
 
   /**
-   * Schedule periodic refresh (every N hours)
+   * Get scheduled jobs with their state and latest runs
    */
-  schedulePeriodicRefresh(hours = 6): cron.ScheduledTask {
-    console.log(`⏰ Scheduling periodic refresh every ${hours} hours...`);
-
-    const periodicJob = cron.schedule(`0 */${hours} * * *`, async () => {
-      console.log(`🔄 Periodic refresh triggered (every ${hours} hours)`);
-      try {
-        await this.scrapeAndCache();
-        console.log('✅ Periodic refresh completed successfully');
-      } catch (error) {
-        console.error('❌ Periodic refresh failed:', error);
-      }
-    }, {
-      scheduled: true
-    });
-
-    this.scheduledJobs.push({
-      name: 'periodic-refresh',
-      schedule: `0 */${hours} * * *`,
-      job: periodicJob,
-      startedAt: new Date().toISOString()
-    });
-
-    console.log(`✅ Periodic refresh scheduled successfully (every ${hours} hours)`);
-    return periodicJob;
+  getScheduledJobs(): JobStatus[] {
+    return this.scheduler.list();
   }
 
   /**
-   * Stop all scheduled jobs
+   * Get the job scheduler (pause, resume, trigger, reload, history)
    */
-  stopScheduledJobs(): void {
-    console.log('🛑 Stopping all scheduled jobs...');
-
-    this.scheduledJobs.forEach(jobInfo => {
-      jobInfo.job.stop();
-      console.log(`⏹️ Stopped job: ${jobInfo.name}`);
-    });
+  getScheduler(): JobScheduler {
+    return this.scheduler;
+  }
 
-    this.scheduledJobs = [];
-    console.log('✅ All scheduled jobs stopped');
+  /**
+   * Clear cache
+   */
+  async clearCache(): Promise<boolean> {
+    console.log('🗑️ Clearing news cache...');
+    return await this.cache.clearCache();
   }
 
   /**
-   * Get scheduled jobs info
+   * Run a scheduled job: refresh its sources (or all of them)
    */
-  getScheduledJobs(): Array<{
-    name: string;
-    schedule: string;
-    startedAt: string;
-    isRunning: boolean;
-  }> {
-    return this.scheduledJobs.map(jobInfo => ({
-      name: jobInfo.name,
-      schedule: jobInfo.schedule,
-      startedAt: jobInfo.startedAt,
-      isRunning: true // Assume running if not explicitly stopped
-    }));
+  private async runJob(job: JobConfig): Promise<{ articles: number }> {
+    const result = await this.scrapeAndCache(job.sources);
+    return { articles: result.totalArticles };
   }
 
   /**
-   * Clear cache
+   * Private method to scrape and cache news. With source ids, only those sources are
+   * scraped and their articles replace theirs in the current snapshot.
+   * Callers share a queued or running scrape of the same sources (or a full one);
+   * a scrape of other sources waits for the current one to finish, then runs.
    */
-  async clearCache(): Promise<boolean> {
-    console.log('🗑️ Clearing news cache...');
-    return await this.cache.clearCache();
+  private scrapeAndCache(sourceIds?: string[]): Promise<RefreshResult> {
+    const key = sourceSetKey(sourceIds);
+    const shared = this.pendingScrapes.get(key) || this.pendingScrapes.get(ALL_SOURCES);
+    if (shared) {
+      console.log('⏳ Joining the news scrape already in progress');
+      return shared;
+    }
+
+    const previous = this.inFlightScrape;
+    const scrape: Promise<RefreshResult> = (previous ? previous.catch(() => undefined) : Promise.resolve())
+      .then(() => this.scrapeWithLock(sourceIds))
+      .finally(() => {
+        if (this.pendingScrapes.get(key) === scrape) {
+          this.pendingScrapes.delete(key);
+        }
+        if (this.inFlightScrape === scrape) {
+          this.inFlightScrape = null;
+        }
+      });
+
+    this.pendingScrapes.set(key, scrape);
+    this.inFlightScrape = scrape;
+    return scrape;
   }
 
   /**
-   * Private method to scrape and cache news
+   * Hold the refresh lock file while scraping so other processes don't scrape at the
+   * same time. If another process holds it, wait and reuse the news it cached.
    */
-  private async scrapeAndCache(): Promise<ScrapedNewsData & { fromCache: boolean; freshlyScraped: boolean }> {
-    if (this.isScrapingInProgress) {
-      throw new Error('Scraping already in progress');
+  private async scrapeWithLock(sourceIds?: string[]): Promise<RefreshResult> {
+    const requestedAt = Date.now();
+    let lock = await acquireLock(this.refreshLockFile, this.refreshLockTtl);
+
+    if (!lock) {
+      console.log('⏳ Another process is refreshing news, waiting for it to finish...');
+      await waitForLockRelease(this.refreshLockFile, { timeoutMs: this.refreshLockTtl });
+
+      const refreshed = await this.cache.getNews(true);
+      if (refreshed && new Date(refreshed.cacheInfo.lastUpdated).getTime() >= requestedAt) {
+        console.log('📰 Using news refreshed by another process');
+        return { ...refreshed, freshlyScraped: false };
+      }
+
+      lock = await acquireLock(this.refreshLockFile, this.refreshLockTtl);
+      if (!lock) {
+        throw new Error('News refresh is locked by another process');
+      }
     }
 
-    this.isScrapingInProgress = true;
+    try {
+      return await this.runScrape(sourceIds);
+    } finally {
+      await lock.release();
+    }
+  }
 
+  private async runScrape(sourceIds?: string[]): Promise<RefreshResult> {
     try {
       console.log('🔍 Starting news scraping process...');
 
-      // Scrape fresh news
-      const newsData = await this.scraper.scrapeLatestNews();
+      // Keep the previous snapshot (even if expired) to work out what changed
+      const previous = await this.cache.getNews(true);
+
+      // Scrape fresh news from every configured source, or just the requested ones
+      const newsData = sourceIds && sourceIds.length > 0
+        ? this.mergeIntoSnapshot(await this.scrapeAllSources(this.registry.createSources(sourceIds)), previous)
+        : await this.scrapeAllSources();
 
-      // Store in cache
+      // Store in cache and keep a permanent record in the archive
       await this.cache.storeNews(newsData);
+      try {
+        await this.storage.recordArticles(newsData.articles, newsData.scrapedAt);
+      } catch (archiveError) {
+        console.error('❌ Failed to archive articles:', archiveError);
+      }
+
+      if (previous) {
+        try {
+          const changeSet = diffArticles(previous.articles, newsData.articles, newsData.scrapedAt);
+          await this.storage.recordChanges(changeSet);
+          console.log(`🆕 ${changeSet.added.length} new, ${changeSet.removed.length} removed, ${changeSet.titleChanged.length} retitled articles`);
+        } catch (diffError) {
+          console.error('❌ Failed to record news changes:', diffError);
+        }
+      }
 
       console.log('✅ News scraping and caching completed successfully');
 
+      // Fetch article bodies in the background so narration can start instantly
+      if (this.prefetchContent) {
+        this.prefetchArticleContent(newsData.articles).catch(error => {
+          console.error('❌ Article content prefetch failed:', error);
+        });
+      }
+
       return {
         ...newsData,
         fromCache: false,
@@ -255,9 +354,176 @@ class NewsService {
     } catch (error) {
       console.error('❌ Error in scrape and cache process:', error);
       throw error;
+    }
+  }
+
+  /**
+   * Fetch and store full bodies for articles that aren't in the content store yet
+   */
+  async prefetchArticleContent(articles: NewsArticle[]): Promise<{ fetched: number; failed: number; skipped: number }> {
+    if (this.prefetchStatus.inProgress) {
+      console.log('⏭️ Article content prefetch already running, skipping');
+      return { fetched: 0, failed: 0, skipped: articles.length };
+    }
+
+    this.prefetchStatus.inProgress = true;
+
+    try {
+      const pending: NewsArticle[] = [];
+      for (const article of articles) {
+        if (!await this.contentStore.has(article.url)) {
+          pending.push(article);
+        }
+      }
+
+      console.log(`📚 Prefetching content for ${pending.length} new articles (${articles.length - pending.length} already stored)...`);
+
+      const outcomes = await mapWithConcurrency(pending, this.prefetchConcurrency, async (article) => {
+        const scraped = await scrapeArticle(article.url);
+        if (!scraped.success) {
+          console.warn(`⚠️ Could not prefetch ${article.url}: ${scraped.error}`);
+          return false;
+        }
+        await this.contentStore.store(article.id, scraped);
+        return true;
+      });
+
+      const fetched = outcomes.filter(Boolean).length;
+      const failed = outcomes.length - fetched;
+
+      this.prefetchStatus.lastRunAt = new Date().toISOString();
+      this.prefetchStatus.lastFetched = fetched;
+      this.prefetchStatus.lastFailed = failed;
+
+      console.log(`✅ Prefetched ${fetched} article bodies (${failed} failed)`);
+      return { fetched, failed, skipped: articles.length - pending.length };
     } finally {
-      this.isScrapingInProgress = false;
+      this.prefetchStatus.inProgress = false;
+    }
+  }
+
+  /**
+   * Net article changes across every refresh after a timestamp
+   */
+  async getChangesSince(since: string): Promise<NewsChanges> {
+    const changeSets = await this.storage.getChangesSince(since);
+    return mergeChangeSets(changeSets, since);
+  }
+
+  /**
+   * Query archived news for a date or date range
+   */
+  async getArchivedNews(query: ArchiveQuery): Promise<ArchivedArticle[]> {
+    return this.storage.queryArticles(query);
+  }
+
+  /**
+   * Get the content store holding prefetched article bodies
+   */
+  getContentStore(): ArticleContentStore {
+    return this.contentStore;
+  }
+
+  /**
+   * Scrape every configured source and merge the results into one feed
+   */
+  private async scrapeAllSources(sources: NewsSource[] = this.sources): Promise<ScrapedNewsData> {
+    const started = Date.now();
+    const results = await Promise.allSettled(sources.map(source => source.scrapeLatestNews()));
+
+    const articles: NewsArticle[] = [];
+    const sourceNames: string[] = [];
+    const seenUrls = new Set<string>();
+    const metrics: SourceScrapeMetrics[] = [];
+
+    results.forEach((result, index) => {
+      const source = sources[index];
+      if (result.status === 'rejected') {
+        console.warn(`⚠️ Source ${source.name} failed:`, result.reason instanceof Error ? result.reason.message : result.reason);
+        metrics.push({
+          sourceId: source.id,
+          source: source.name,
+          ingestion: source.ingestion,
+          durationMs: Date.now() - started,
+          articles: 0,
+          pages: [],
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+        });
+        return;
+      }
+
+      if (result.value.metrics) {
+        metrics.push(result.value.metrics);
+      }
+      sourceNames.push(source.name);
+      for (const article of result.value.articles) {
+        if (seenUrls.has(article.url)) continue;
+        seenUrls.add(article.url);
+        articles.push(article);
+      }
+    });
+
+    // Recorded before a total failure is thrown: that is the run we most want to see
+    await this.recordScrapeRun({ at: new Date().toISOString(), durationMs: Date.now() - started, sources: metrics });
+
+    if (sourceNames.length === 0) {
+      throw new Error('All news sources failed to scrape');
+    }
+
+    return {
+      source: sourceNames.join(', '),
+      sources: sourceNames,
+      scrapedAt: new Date().toISOString(),
+      totalArticles: articles.length,
+      articles
+    };
+  }
+
+  /**
+   * Store the metrics of a scrape run and warn about categories that look broken
+   */
+  private async recordScrapeRun(run: ScrapeRun): Promise<void> {
+    try {
+      await this.storage.recordScrapeRun(run);
+      const anomalies = detectAnomalies(await this.storage.getScrapeRuns(SCRAPE_HEALTH_HISTORY))
+        .filter(anomaly => anomaly.at === run.at);
+      anomalies.forEach(anomaly => console.warn(`🚨 Scrape anomaly: ${anomaly.message}`));
+    } catch (error) {
+      console.error('❌ Failed to record scrape metrics:', error);
+    }
+  }
+
+  /**
+   * Combine a partial scrape with the articles of every other source in the previous snapshot
+   */
+  private mergeIntoSnapshot(partial: ScrapedNewsData, previous: ScrapedNewsData | null): ScrapedNewsData {
+    if (!previous) {
+      return partial;
     }
+
+    const refreshedSourceIds = new Set(partial.articles.map(article => article.sourceId));
+    const seenUrls = new Set(partial.articles.map(article => article.url));
+    const kept = previous.articles.filter(article =>
+      !refreshedSourceIds.has(article.sourceId) && !seenUrls.has(article.url)
+    );
+
+    const articles = [...partial.articles, ...kept];
+    const sourceNames = Array.from(new Set([...(partial.sources || []), ...(previous.sources || [])]));
+
+    return {
+      source: sourceNames.join(', '),
+      sources: sourceNames,
+      scrapedAt: partial.scrapedAt,
+      totalArticles: articles.length,
+      articles
+    };
+  }
+
+  /**
+   * Get the configured news sources and how each one is ingested
+   */
+  getSources(): Array<{ id: string; name: string; ingestion: IngestionMode }> {
+    return this.sources.map(source => ({ id: source.id, name: source.name, ingestion: source.ingestion }));
   }
 
   /**
@@ -266,18 +532,13 @@ class NewsService {
   getStats(): {
     isScrapingInProgress: boolean;
     scheduledJobsCount: number;
-    scheduledJobs: Array<{
-      name: string;
-      schedule: string;
-      startedAt: string;
-      isRunning: boolean;
-    }>;
+    scheduledJobs: JobStatus[];
     uptime: number;
     startedAt: string;
   } {
     return {
-      isScrapingInProgress: this.isScrapingInProgress,
-      scheduledJobsCount: this.scheduledJobs.length,
+      isScrapingInProgress: this.inFlightScrape !== null,
+      scheduledJobsCount: this.scheduler.list().filter(job => job.isScheduled).length,
       scheduledJobs: this.getScheduledJobs(),
       uptime: process.uptime(),
       startedAt: new Date(Date.now() - process.uptime() * 1000).toISOString()
@@ -285,4 +546,11 @@ class NewsService {
   }
 }
 
-export default NewsService;
\ No newline at end of file
+/**
+ * Key for a set of source ids, the same whatever their order; every source when none are given
+ */
+function sourceSetKey(sourceIds?: string[]): string {
+  return sourceIds && sourceIds.length > 0 ? Array.from(new Set(sourceIds)).sort().join(',') : ALL_SOURCES;
+}
+
+export default NewsService;
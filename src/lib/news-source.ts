@@ -0,0 +1,416 @@
+import * as cheerio from 'cheerio';
+import { parseFeed } from './feed-parser';
+import { getHttpFetcher, HttpError, type FetchResult, type TextFetcher } from './http-fetcher';
+import { mapWithConcurrency } from './concurrency';
+import type { NewsArticle, PageScrapeMetrics, ScrapedNewsData, SourceScrapeMetrics } from './types';
+
+/**
+ * A listing page (homepage or section front) that a news source scrapes
+ */
+export interface ListingPage {
+  url: string;
+  category: string;
+}
+
+const MAX_TEASER_LENGTH = 300;
+const FEED_ACCEPT = 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8';
+
+/**
+ * How a source ingests its listings: scraping HTML pages or reading RSS/Atom feeds
+ */
+export type IngestionMode = 'html' | 'feed';
+
+export interface NewsSourceOptions {
+  /** Fetcher for listing pages and feeds; the shared HttpFetcher when omitted */
+  fetcher?: TextFetcher;
+}
+
+/**
+ * Scrape result with the per-page metrics used for health monitoring
+ */
+export type SourceScrapeResult = ScrapedNewsData & { metrics?: SourceScrapeMetrics };
+
+/**
+ * Contract implemented by every news outlet adapter
+ */
+export interface NewsSource {
+  id: string;
+  name: string;
+  baseUrl: string;
+  ingestion: IngestionMode;
+
+  /** Listing pages to fetch on each refresh */
+  getListingPages(): ListingPage[];
+
+  /** RSS/Atom feeds to read when ingestion is 'feed' */
+  getFeedPages(): ListingPage[];
+
+  /** Extract articles from a loaded listing page */
+  extractArticles($: cheerio.Root, page: ListingPage): NewsArticle[];
+
+  /** Map an outlet-specific section name to an app category */
+  mapCategory(rawCategory: string): string;
+
+  /** Fetch every listing page and return the combined, de-duplicated result */
+  scrapeLatestNews(): Promise<SourceScrapeResult>;
+}
+
+/**
+ * Base class with the fetch loop and helpers shared by news sources
+ */
+export abstract class BaseNewsSource implements NewsSource {
+  abstract id: string;
+  abstract name: string;
+  abstract baseUrl: string;
+
+  ingestion: IngestionMode = 'html';
+
+  protected timeout = 30000;
+  protected maxArticles = 500;
+  /** Listing pages fetched in parallel (the shared fetcher still spaces requests per host) */
+  protected pageConcurrency = 3;
+  protected fetcher: TextFetcher | null;
+  /** Strategy counters of the page being extracted (extraction is synchronous, so one page at a time) */
+  private strategyHits: Record<string, number> | null = null;
+
+  constructor(options: NewsSourceOptions = {}) {
+    this.fetcher = options.fetcher || null;
+  }
+
+  abstract getListingPages(): ListingPage[];
+  abstract extractArticles($: cheerio.Root, page: ListingPage): NewsArticle[];
+
+  getFeedPages(): ListingPage[] {
+    return [];
+  }
+
+  mapCategory(rawCategory: string): string {
+    return rawCategory;
+  }
+
+  /**
+   * Scrape latest news from every listing page of this source
+   */
+  async scrapeLatestNews(): Promise<SourceScrapeResult> {
+    const started = Date.now();
+
+    try {
+      console.log(`🗞️ Scraping latest news from ${this.name} across multiple categories...`);
+
+      const feedPages = this.ingestion === 'feed' ? this.getFeedPages() : [];
+      const useFeeds = feedPages.length > 0;
+
+      if (this.ingestion === 'feed' && !useFeeds) {
+        console.warn(`⚠️ ${this.name} has no feeds configured, falling back to HTML scraping`);
+      }
+
+      const pages = useFeeds ? feedPages : this.getListingPages();
+      const pageResults = await mapWithConcurrency(pages, this.pageConcurrency, page => this.scrapePage(page, useFeeds));
+      const articles = pageResults.flatMap(result => result.articles);
+
+      // Remove duplicates, tag with origin and limit results
+      const uniqueArticles = this.removeDuplicates(articles).map(article => ({
+        ...article,
+        source: this.name,
+        sourceId: this.id
+      }));
+      const limitedArticles = uniqueArticles.slice(0, this.maxArticles);
+
+      console.log(`✅ Successfully scraped ${limitedArticles.length} articles from ${this.name}`);
+
+      return {
+        source: this.name,
+        sources: [this.name],
+        scrapedAt: new Date().toISOString(),
+        totalArticles: limitedArticles.length,
+        articles: limitedArticles,
+        metrics: {
+          sourceId: this.id,
+          source: this.name,
+          ingestion: useFeeds ? 'feed' : 'html',
+          durationMs: Date.now() - started,
+          articles: limitedArticles.length,
+          pages: pageResults.map(result => result.metrics)
+        }
+      };
+
+    } catch (error) {
+      console.error(`❌ Error scraping ${this.name}:`, error);
+      throw new Error(`Failed to scrape ${this.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Fetch and extract one listing page, recording its status, timing and yield
+   */
+  private async scrapePage(page: ListingPage, useFeeds: boolean): Promise<{ articles: NewsArticle[]; metrics: PageScrapeMetrics }> {
+    const started = Date.now();
+    const metrics: PageScrapeMetrics = {
+      category: this.mapCategory(page.category),
+      url: page.url,
+      status: 0,
+      notModified: false,
+      durationMs: 0,
+      articles: 0,
+      strategies: {}
+    };
+
+    try {
+      console.log(`📰 Scraping ${this.name} ${page.category}${useFeeds ? ' feed' : ''}...`);
+      const response = await this.fetchListingPage(page.url, useFeeds ? FEED_ACCEPT : undefined);
+      metrics.status = response.status;
+      metrics.notModified = response.notModified;
+
+      this.strategyHits = metrics.strategies;
+      const articles = useFeeds
+        ? this.extractFeedArticles(response.body, page)
+        : this.extractArticles(cheerio.load(response.body), page);
+      metrics.articles = articles.length;
+      return { articles, metrics };
+    } catch (categoryError) {
+      console.warn(`⚠️ Failed to scrape ${this.name} ${page.category}:`, categoryError instanceof Error ? categoryError.message : 'Unknown error');
+      if (categoryError instanceof HttpError) {
+        metrics.status = categoryError.status;
+      }
+      metrics.error = categoryError instanceof Error ? categoryError.message : 'Unknown error';
+      // Continue with the other categories if one fails
+      return { articles: [], metrics };
+    } finally {
+      this.strategyHits = null;
+      metrics.durationMs = Date.now() - started;
+    }
+  }
+
+  /**
+   * Count articles found by an extraction strategy on the page being extracted.
+   * A strategy that suddenly finds nothing is the usual sign of changed markup.
+   */
+  protected countStrategy(strategy: string, articles: number): void {
+    if (this.strategyHits) {
+      this.strategyHits[strategy] = (this.strategyHits[strategy] || 0) + articles;
+    }
+  }
+
+  /**
+   * Convert the items of an RSS/Atom feed into articles
+   */
+  protected extractFeedArticles(xml: string, page: ListingPage): NewsArticle[] {
+    const category = this.mapCategory(page.category);
+
+    const articles = parseFeed(xml).items
+      .filter(item => item.title && item.link)
+      .map(item => this.createArticle(item.title, item.link, category, {
+        summary: item.summary,
+        imageUrl: item.imageUrl,
+        author: item.author || undefined,
+        ...(item.publishedAt && { publishedAt: item.publishedAt })
+      }));
+
+    this.countStrategy('feed', articles.length);
+    return articles;
+  }
+
+  /**
+   * Download a listing page or feed through the shared fetcher (robots.txt, retries,
+   * host spacing, conditional requests)
+   */
+  protected async fetchListingPage(url: string, accept = 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8'): Promise<FetchResult> {
+    return (this.fetcher || getHttpFetcher()).fetchText(url, {
+      accept,
+      timeout: this.timeout,
+      conditional: true
+    });
+  }
+
+  /**
+   * Build a NewsArticle record for a headline link
+   */
+  protected createArticle(title: string, url: string, category: string, details: Partial<NewsArticle> = {}): NewsArticle {
+    return {
+      id: this.generateId(title),
+      title: this.cleanTitle(title),
+      url: this.buildFullUrl(url),
+      category,
+      summary: '',
+      imageUrl: '',
+      publishedAt: new Date().toISOString(),
+      scrapedAt: new Date().toISOString(),
+      ...details
+    };
+  }
+
+  /**
+   * Extract the teaser, thumbnail and publish time from the card around a headline link.
+   * Fields that can't be found are left out so createArticle's defaults apply.
+   */
+  protected extractCardDetails($: cheerio.Root, element: cheerio.Element, title: string): Partial<NewsArticle> {
+    const $card = this.findCard($, element);
+    const details: Partial<NewsArticle> = {};
+
+    const summary = this.extractTeaser($, $card, title);
+    if (summary) details.summary = summary;
+
+    const imageUrl = this.extractThumbnail($card);
+    if (imageUrl) details.imageUrl = imageUrl;
+
+    const publishedAt = this.extractPublishTime($card);
+    if (publishedAt) details.publishedAt = publishedAt;
+
+    return details;
+  }
+
+  /**
+   * Find the smallest container around a link that represents a single story card
+   */
+  protected findCard($: cheerio.Root, element: cheerio.Element): cheerio.Cheerio {
+    const $link = $(element);
+    const href = $link.attr('href');
+
+    // A container holding another story's headline is a section, not a single card
+    const holdsOtherStory = ($container: cheerio.Cheerio) => $container.find('a[href]').toArray()
+      .some(other => $(other).attr('href') !== href && $(other).text().trim().length > 15);
+
+    const $card = $link.closest('article, li, figure, [class*="card"], [class*="Card"], [class*="story"], [class*="Story"], [class*="item"], [class*="Item"]');
+    if ($card.length > 0 && !holdsOtherStory($card)) {
+      return $card;
+    }
+
+    // Climb a few levels while the container still looks like a single story
+    let $best = $link;
+    let $current = $link.parent();
+    for (let depth = 0; depth < 3 && $current.length > 0; depth++) {
+      if (holdsOtherStory($current)) break;
+      $best = $current;
+      $current = $current.parent();
+    }
+    return $best;
+  }
+
+  /**
+   * Teaser text near the headline, ignoring the headline itself
+   */
+  private extractTeaser($: cheerio.Root, $card: cheerio.Cheerio, title: string): string {
+    const normalizedTitle = title.replace(/\s+/g, ' ').trim();
+    const candidates = $card.find('[class*="description"], [class*="Description"], [class*="summary"], [class*="teaser"], [class*="dek"], p');
+
+    for (const candidate of candidates.toArray()) {
+      const text = $(candidate).text().replace(/\s+/g, ' ').trim();
+      if (text.length > 30 && text !== normalizedTitle && !normalizedTitle.includes(text)) {
+        return text.length > MAX_TEASER_LENGTH ? text.substring(0, MAX_TEASER_LENGTH).trim() + '...' : text;
+      }
+    }
+    return '';
+  }
+
+  /**
+   * Card thumbnail, preferring lazy-load attributes and the largest srcset candidate
+   */
+  private extractThumbnail($card: cheerio.Cheerio): string {
+    const $img = $card.find('img').first();
+    const $source = $card.find('picture source[srcset], picture source[data-srcset]').first();
+
+    const candidates = [
+      $img.attr('data-src'),
+      $img.attr('data-lazy-src'),
+      $img.attr('data-original'),
+      pickLargestSrcset($img.attr('data-srcset')),
+      pickLargestSrcset($img.attr('srcset')),
+      pickLargestSrcset($source.attr('data-srcset') || $source.attr('srcset')),
+      $img.attr('src')
+    ];
+
+    const url = candidates.find(candidate => candidate && !candidate.startsWith('data:'));
+    return url ? this.buildFullUrl(url.trim()) : '';
+  }
+
+  /**
+   * Publish time from a <time datetime> (or data-timestamp) stamp inside the card
+   */
+  private extractPublishTime($card: cheerio.Cheerio): string {
+    const stamp = $card.find('time[datetime]').first().attr('datetime')
+      || $card.find('[data-timestamp]').first().attr('data-timestamp')
+      || '';
+    if (!stamp) return '';
+
+    // Numeric stamps are epoch seconds or milliseconds
+    const date = /^\d+$/.test(stamp)
+      ? new Date(stamp.length <= 10 ? Number(stamp) * 1000 : Number(stamp))
+      : new Date(stamp);
+    return isNaN(date.getTime()) ? '' : date.toISOString();
+  }
+
+  /**
+   * Build full URL from relative URL
+   */
+  protected buildFullUrl(relativeUrl: string): string {
+    if (!relativeUrl) return '';
+    if (relativeUrl.startsWith('http')) return relativeUrl;
+    if (relativeUrl.startsWith('//')) return 'https:' + relativeUrl;
+    if (relativeUrl.startsWith('/')) return this.baseUrl + relativeUrl;
+    return this.baseUrl + '/' + relativeUrl;
+  }
+
+  /**
+   * Clean article title
+   */
+  protected cleanTitle(title: string): string {
+    return title
+      .replace(/\s+/g, ' ')
+      .replace(/[""'']/g, '"')
+      .replace(/…/g, '...')
+      .trim();
+  }
+
+  /**
+   * Generate unique ID for article
+   */
+  protected generateId(title: string): string {
+    return title
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '-')
+      .replace(/-+/g, '-')
+      .replace(/^-|-$/g, '')
+      .substring(0, 50);
+  }
+
+  /**
+   * Remove duplicate articles based on title similarity, keeping the most specific category
+   */
+  protected removeDuplicates(articles: NewsArticle[]): NewsArticle[] {
+    const articleMap = new Map<string, NewsArticle>();
+
+    for (const article of articles) {
+      const normalizedTitle = article.title.toLowerCase().replace(/\s+/g, ' ');
+
+      if (articleMap.has(normalizedTitle)) {
+        const existing = articleMap.get(normalizedTitle)!;
+        // Keep the article with the more specific category (not General)
+        if (article.category !== 'General' && existing.category === 'General') {
+          articleMap.set(normalizedTitle, article);
+        }
+      } else {
+        articleMap.set(normalizedTitle, article);
+      }
+    }
+
+    return Array.from(articleMap.values());
+  }
+}
+
+/**
+ * Pick the widest candidate from a srcset attribute
+ */
+function pickLargestSrcset(srcset: string | undefined): string | undefined {
+  if (!srcset) return undefined;
+
+  let best: { url: string; width: number } | undefined;
+  for (const entry of srcset.split(',')) {
+    const [url, descriptor = ''] = entry.trim().split(/\s+/);
+    if (!url) continue;
+    const width = parseFloat(descriptor) || 0;
+    if (!best || width > best.width) {
+      best = { url, width };
+    }
+  }
+  return best?.url;
+}
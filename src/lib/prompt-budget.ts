@@ -0,0 +1,61 @@
+import type { ArticleBlock } from './article-blocks';
+
+// Rough average for English text with GPT-style tokenizers
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate how many tokens a piece of text will use in a prompt
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Trim article text to fit a prompt token budget. Cuts at block (paragraph)
+ * boundaries where possible, then at a sentence or word boundary, and marks
+ * the cut with an ellipsis.
+ */
+export function truncateForPrompt(input: string | ArticleBlock[], maxTokens: number): string {
+  const blocks = typeof input === 'string'
+    ? input.split(/\n\s*\n/).filter(part => part.trim())
+    : input.map(block => block.text);
+
+  const parts: string[] = [];
+  let usedTokens = 0;
+
+  for (const block of blocks) {
+    const separatorTokens = parts.length > 0 ? 1 : 0;
+    const blockTokens = estimateTokens(block);
+
+    if (usedTokens + separatorTokens + blockTokens <= maxTokens) {
+      parts.push(block);
+      usedTokens += separatorTokens + blockTokens;
+      continue;
+    }
+
+    // Fit part of this block if there's meaningful room left
+    const remainingChars = (maxTokens - usedTokens - separatorTokens) * CHARS_PER_TOKEN;
+    if (remainingChars > 80) {
+      parts.push(cutAtBoundary(block, remainingChars));
+    } else if (parts.length > 0) {
+      parts[parts.length - 1] += '...';
+    }
+    return parts.join('\n\n');
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Cut text to at most maxChars, preferring the end of a sentence, then a word
+ */
+function cutAtBoundary(text: string, maxChars: number): string {
+  const slice = text.substring(0, maxChars);
+  const sentenceEnd = Math.max(slice.lastIndexOf('. '), slice.lastIndexOf('! '), slice.lastIndexOf('? '));
+  if (sentenceEnd > maxChars * 0.5) {
+    return slice.substring(0, sentenceEnd + 1) + ' ...';
+  }
+
+  const wordEnd = slice.lastIndexOf(' ');
+  return (wordEnd > 0 ? slice.substring(0, wordEnd) : slice) + '...';
+}
@@ -0,0 +1,137 @@
+/**
+ * Minimal robots.txt support (RFC 9309): user-agent groups, Allow/Disallow with
+ * `*` and `$` wildcards (longest match wins, Allow wins ties) and Crawl-delay
+ */
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsRules {
+  groups: RobotsGroup[];
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  /** Seconds between requests the site asks this agent to keep */
+  crawlDelay?: number;
+  /** The rule that decided the verdict, if any */
+  rule?: RobotsRule;
+}
+
+export const ALLOW_ALL: RobotsRules = { groups: [] };
+export const DISALLOW_ALL: RobotsRules = { groups: [{ agents: ['*'], rules: [{ allow: false, path: '/' }] }] };
+
+/**
+ * Parse robots.txt into user-agent groups
+ */
+export function parseRobots(text: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything and adds no rule
+      if (value) {
+        current.rules.push({ allow: field === 'allow', path: value });
+      }
+    } else if (field === 'crawl-delay') {
+      const delay = Number(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.crawlDelay = delay;
+      }
+    }
+  }
+
+  return { groups };
+}
+
+/**
+ * Decide whether an agent may fetch a path (including any query string)
+ */
+export function checkRobots(rules: RobotsRules, agentToken: string, pathWithQuery: string): RobotsVerdict {
+  const groups = findGroups(rules, agentToken);
+  if (groups.length === 0 || pathWithQuery === '/robots.txt') {
+    return { allowed: true };
+  }
+
+  const crawlDelay = groups.find(group => group.crawlDelay !== undefined)?.crawlDelay;
+  let best: RobotsRule | undefined;
+
+  for (const group of groups) {
+    for (const rule of group.rules) {
+      if (!matchesPath(rule.path, pathWithQuery)) continue;
+
+      const length = rule.path.replace(/\$$/, '').length;
+      const bestLength = best ? best.path.replace(/\$$/, '').length : -1;
+      if (length > bestLength || (length === bestLength && rule.allow && !best?.allow)) {
+        best = rule;
+      }
+    }
+  }
+
+  return {
+    allowed: best ? best.allow : true,
+    ...(crawlDelay !== undefined && { crawlDelay }),
+    ...(best && { rule: best })
+  };
+}
+
+/**
+ * Groups for the most specific agent name contained in the token, falling back to `*`
+ */
+function findGroups(rules: RobotsRules, agentToken: string): RobotsGroup[] {
+  const token = agentToken.toLowerCase();
+  let bestAgent = '';
+
+  for (const group of rules.groups) {
+    for (const agent of group.agents) {
+      if (agent !== '*' && token.includes(agent) && agent.length > bestAgent.length) {
+        bestAgent = agent;
+      }
+    }
+  }
+
+  const agent = bestAgent || '*';
+  return rules.groups.filter(group => group.agents.includes(agent));
+}
+
+function matchesPath(pattern: string, pathWithQuery: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(pathWithQuery);
+}
@@ -0,0 +1,146 @@
+import type { CacheStorage } from './cache-storage';
+import type { PageScrapeMetrics, ScrapeAnomaly, ScrapeRun, SourceScrapeMetrics } from './types';
+
+export interface AnomalyOptions {
+  /** Previous successful runs averaged per category */
+  window?: number;
+  /** Flag a category when its yield falls this far below the average (0.5 = half) */
+  dropThreshold?: number;
+  /** Runs of history needed before yield drops are reported */
+  minHistory?: number;
+  /** Ignore categories that normally yield fewer articles than this */
+  minAverage?: number;
+}
+
+export interface ScrapeHealth {
+  status: 'ok' | 'degraded' | 'failing';
+  lastRunAt: string | null;
+  anomalies: ScrapeAnomaly[];
+  /** Recent runs, newest first */
+  runs: ScrapeRun[];
+}
+
+// Runs read when computing health: enough history for the rolling window of every source
+export const SCRAPE_HEALTH_HISTORY = 100;
+
+interface PageEntry {
+  at: string;
+  page: PageScrapeMetrics;
+}
+
+/**
+ * Compare each category's latest scrape with the rolling average of its previous
+ * successful scrapes. Only the latest run of each source is judged, so partial
+ * refreshes of other sources don't hide or repeat anomalies.
+ */
+export function detectAnomalies(runs: ScrapeRun[], options: AnomalyOptions = {}): ScrapeAnomaly[] {
+  const { window = 10, dropThreshold = 0.5, minHistory = 3, minAverage = 5 } = options;
+
+  // Page history per source and category, oldest first
+  const history = new Map<string, PageEntry[]>();
+  const latestBySource = new Map<string, { at: string; source: SourceScrapeMetrics }>();
+
+  for (const run of runs) {
+    for (const source of run.sources) {
+      latestBySource.set(source.sourceId, { at: run.at, source });
+      for (const page of source.pages) {
+        const key = `${source.sourceId}:${page.category}`;
+        const entries = history.get(key) || [];
+        entries.push({ at: run.at, page });
+        history.set(key, entries);
+      }
+    }
+  }
+
+  const anomalies: ScrapeAnomaly[] = [];
+
+  latestBySource.forEach(({ at, source }) => {
+    const base = { sourceId: source.sourceId, source: source.source, at };
+
+    if (source.error) {
+      anomalies.push({
+        ...base,
+        category: 'All',
+        kind: 'fetch-failed',
+        severity: 'critical',
+        articles: 0,
+        average: null,
+        message: `${source.source} failed: ${source.error}`
+      });
+      return;
+    }
+
+    for (const page of source.pages) {
+      const entries = history.get(`${source.sourceId}:${page.category}`) || [];
+      const previous = entries.slice(0, -1).filter(entry => !entry.page.error).slice(-window);
+      const average = previous.length >= minHistory
+        ? previous.reduce((sum, entry) => sum + entry.page.articles, 0) / previous.length
+        : null;
+      const label = `${source.source} ${page.category}`;
+
+      if (page.error) {
+        anomalies.push({
+          ...base,
+          category: page.category,
+          kind: 'fetch-failed',
+          severity: 'critical',
+          articles: 0,
+          average,
+          message: `${label} could not be fetched${page.status ? ` (HTTP ${page.status})` : ''}: ${page.error}`
+        });
+      } else if (average !== null && average > 0 && page.articles === 0) {
+        anomalies.push({
+          ...base,
+          category: page.category,
+          kind: 'empty',
+          severity: 'critical',
+          articles: 0,
+          average,
+          message: `${label} returned no articles (rolling average ${average.toFixed(1)}), the page markup may have changed`
+        });
+      } else if (average !== null && average >= minAverage && page.articles < average * (1 - dropThreshold)) {
+        const drop = Math.round((1 - page.articles / average) * 100);
+        anomalies.push({
+          ...base,
+          category: page.category,
+          kind: 'yield-drop',
+          severity: 'warning',
+          articles: page.articles,
+          average,
+          message: `${label} yielded ${page.articles} articles, ${drop}% below its rolling average of ${average.toFixed(1)}`
+        });
+      }
+    }
+  });
+
+  return anomalies;
+}
+
+/**
+ * Recent scrape runs with the anomalies found in them, optionally for one source
+ */
+export async function getScrapeHealth(
+  storage: CacheStorage,
+  options: { limit?: number; sourceId?: string } & AnomalyOptions = {}
+): Promise<ScrapeHealth> {
+  const { limit = 20, sourceId, ...anomalyOptions } = options;
+
+  let runs = await storage.getScrapeRuns(SCRAPE_HEALTH_HISTORY);
+  if (sourceId) {
+    runs = runs
+      .map(run => ({ ...run, sources: run.sources.filter(source => source.sourceId === sourceId) }))
+      .filter(run => run.sources.length > 0);
+  }
+
+  const anomalies = detectAnomalies(runs, anomalyOptions);
+  const status = anomalies.some(anomaly => anomaly.severity === 'critical')
+    ? 'failing'
+    : anomalies.length > 0 ? 'degraded' : 'ok';
+
+  return {
+    status,
+    lastRunAt: runs.length > 0 ? runs[runs.length - 1].at : null,
+    anomalies,
+    runs: runs.slice(-limit).reverse()
+  };
+}
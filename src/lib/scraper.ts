@@ -1,91 +1,69 @@
-import axios from 'axios';
 import * as cheerio from 'cheerio';
 import type { NewsArticle } from './types';
+import { BaseNewsSource, type ListingPage } from './news-source';
 
 /**
  * ABC News Scraper
  * Scrapes latest news headlines and articles from ABC News website
  */
-class ABCNewsScraper {
-  private baseUrl = 'https://abcnews.go.com';
-  private timeout = 30000;
-  private userAgent = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
-  private maxArticles = 500;  // Increased to get articles from all 9 categories (~50-80 per category)
+class ABCNewsScraper extends BaseNewsSource {
+  id = 'abc';
+  name = 'ABC News';
+  baseUrl = 'https://abcnews.go.com';
+  protected maxArticles = 500;  // Increased to get articles from all 9 categories (~50-80 per category)
 
   /**
-   * Scrape latest news from ABC News homepage and category pages
+   * Category pages to scrape
    */
-  async scrapeLatestNews(): Promise<{
-    source: string;
-    scrapedAt: string;
-    totalArticles: number;
-    articles: NewsArticle[];
-  }> {
-    try {
-      console.log('🗞️ Scraping latest news from ABC News across multiple categories...');
-
-      const articles: NewsArticle[] = [];
-
-      // Category pages to scrape
-      const categoryPages = [
-        { url: this.baseUrl, name: 'General' },
-        { url: `${this.baseUrl}/us`, name: 'US' },
-        { url: `${this.baseUrl}/international`, name: 'International' },
-        { url: `${this.baseUrl}/politics`, name: 'Politics' },
-        { url: `${this.baseUrl}/business`, name: 'Business' },
-        { url: `${this.baseUrl}/technology`, name: 'Technology' },
-        { url: `${this.baseUrl}/sports`, name: 'Sports' },
-        { url: `${this.baseUrl}/entertainment`, name: 'Entertainment' },
-        { url: `${this.baseUrl}/health`, name: 'Health' }
-      ];
-
-      // Scrape each category page
-      for (const page of categoryPages) {
-        try {
-          console.log(`📰 Scraping ${page.name}...`);
-          const { data: html } = await axios.get(page.url, {
-            timeout: this.timeout,
-            headers: {
-              'User-Agent': this.userAgent,
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-              'Accept-Language': 'en-US,en;q=0.5',
-              'Accept-Encoding': 'gzip, deflate',
-              'Connection': 'keep-alive'
-            }
-          });
-
-          const $ = cheerio.load(html);
-          this.scrapeMainHeadlines($, articles, page.name);
-          this.scrapeNewsLinks($, articles, page.name);
-        } catch (categoryError) {
-          console.warn(`⚠️ Failed to scrape ${page.name}:`, categoryError instanceof Error ? categoryError.message : 'Unknown error');
-          // Continue to next category if one fails
-        }
-      }
-
-      // Remove duplicates and limit results
-      const uniqueArticles = this.removeDuplicates(articles);
-      const limitedArticles = uniqueArticles.slice(0, this.maxArticles);
-
-      console.log(`✅ Successfully scraped ${limitedArticles.length} articles from ABC News`);
+  getListingPages(): ListingPage[] {
+    return [
+      { url: this.baseUrl, category: 'General' },
+      { url: `${this.baseUrl}/us`, category: 'US' },
+      { url: `${this.baseUrl}/international`, category: 'International' },
+      { url: `${this.baseUrl}/politics`, category: 'Politics' },
+      { url: `${this.baseUrl}/business`, category: 'Business' },
+      { url: `${this.baseUrl}/technology`, category: 'Technology' },
+      { url: `${this.baseUrl}/sports`, category: 'Sports' },
+      { url: `${this.baseUrl}/entertainment`, category: 'Entertainment' },
+      { url: `${this.baseUrl}/health`, category: 'Health' }
+    ];
+  }
 
-      return {
-        source: 'ABC News',
-        scrapedAt: new Date().toISOString(),
-        totalArticles: limitedArticles.length,
-        articles: limitedArticles
-      };
+  /**
+   * ABC News RSS feeds, used when ingestion is 'feed'
+   */
+  getFeedPages(): ListingPage[] {
+    const feedBase = 'https://abcnews.go.com/abcnews';
+    return [
+      { url: `${feedBase}/topstories`, category: 'General' },
+      { url: `${feedBase}/usheadlines`, category: 'US' },
+      { url: `${feedBase}/internationalheadlines`, category: 'International' },
+      { url: `${feedBase}/politicsheadlines`, category: 'Politics' },
+      { url: `${feedBase}/moneyheadlines`, category: 'Business' },
+      { url: `${feedBase}/technologyheadlines`, category: 'Technology' },
+      { url: `${feedBase}/sportsheadlines`, category: 'Sports' },
+      { url: `${feedBase}/entertainmentheadlines`, category: 'Entertainment' },
+      { url: `${feedBase}/healthheadlines`, category: 'Health' }
+    ];
+  }
 
-    } catch (error) {
-      console.error('❌ Error scraping ABC News:', error);
-      throw new Error(`Failed to scrape ABC News: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  /**
+   * Extract headlines and content links from a category page
+   */
+  extractArticles($: cheerio.Root, page: ListingPage): NewsArticle[] {
+    const articles: NewsArticle[] = [];
+    const category = this.mapCategory(page.category);
+    this.scrapeMainHeadlines($, articles, category);
+    this.scrapeNewsLinks($, articles, category);
+    return articles;
   }
 
   /**
    * Scrape main headlines from main content area
    */
   private scrapeMainHeadlines($: cheerio.Root, articles: NewsArticle[], sourceCategory: string = 'General') {
+    const before = articles.length;
+
     // Target article headlines - excluding navigation
     $('h1 a, h2 a, h3 a').each((_, element) => {
       const $element = $(element);
@@ -93,28 +71,20 @@ class ABCNewsScraper {
       const relativeUrl = $element.attr('href');
 
       if (title && relativeUrl && title.length > 15 && this.isValidNewsUrl(relativeUrl) && this.isValidTitle(title)) {
-        const fullUrl = this.buildFullUrl(relativeUrl);
         // Use sourceCategory from the page being scraped
-        const category = sourceCategory;
-
-        articles.push({
-          id: this.generateId(title),
-          title: this.cleanTitle(title),
-          url: fullUrl,
-          category,
-          summary: '',
-          imageUrl: '',
-          publishedAt: new Date().toISOString(),
-          scrapedAt: new Date().toISOString()
-        });
+        articles.push(this.createArticle(title, relativeUrl, sourceCategory, this.extractCardDetails($, element, title)));
       }
     });
+
+    this.countStrategy('headlines', articles.length - before);
   }
 
   /**
    * Scrape news links from main content area (excluding navigation)
    */
   private scrapeNewsLinks($: cheerio.Root, articles: NewsArticle[], sourceCategory: string = 'General') {
+    const before = articles.length;
+
     // Focus on main content area and article containers - exclude nav
     const mainContent = $('main, [role="main"], .main-content, article, .article');
     
@@ -122,11 +92,13 @@ class ABCNewsScraper {
       mainContent.find('a').each((_, element) => {
         this.processArticleLink($, element, articles, sourceCategory);
       });
+      this.countStrategy('main-content', articles.length - before);
     } else {
       // Fallback: scrape specific article patterns while avoiding navigation
       $('div[class*="story"] a, div[class*="article"] a, a[href*="/news/"], a[href*="/story"]').each((_, element) => {
         this.processArticleLink($, element, articles, sourceCategory);
       });
+      this.countStrategy('fallback-links', articles.length - before);
     }
   }
 
@@ -230,34 +202,11 @@ class ABCNewsScraper {
     const relativeUrl = $element.attr('href');
 
     if (title && relativeUrl && title.length > 15 && !articles.some(a => a.title === title) && this.isValidNewsUrl(relativeUrl) && this.isValidTitle(title)) {
-      const fullUrl = this.buildFullUrl(relativeUrl);
       // Use sourceCategory from the page being scraped
-      const category = sourceCategory;
-
-      articles.push({
-        id: this.generateId(title),
-        title: this.cleanTitle(title),
-        url: fullUrl,
-        category,
-        summary: '',
-        imageUrl: '',
-        publishedAt: new Date().toISOString(),
-        scrapedAt: new Date().toISOString()
-      });
+      articles.push(this.createArticle(title, relativeUrl, sourceCategory, this.extractCardDetails($, element, title)));
     }
   }
 
-  /**
-   * Build full URL from relative URL
-   */
-  private buildFullUrl(relativeUrl: string): string {
-    if (!relativeUrl) return '';
-    if (relativeUrl.startsWith('http')) return relativeUrl;
-    if (relativeUrl.startsWith('//')) return 'https:' + relativeUrl;
-    if (relativeUrl.startsWith('/')) return this.baseUrl + relativeUrl;
-    return this.baseUrl + '/' + relativeUrl;
-  }
-
   /**
    * Extract category from URL
    */
@@ -286,52 +235,6 @@ class ABCNewsScraper {
 
     return 'General';
   }
-
-  /**
-   * Clean article title
-   */
-  private cleanTitle(title: string): string {
-    return title
-      .replace(/\s+/g, ' ')
-      .replace(/[""'']/g, '"')
-      .replace(/…/g, '...')
-      .trim();
-  }
-
-  /**
-   * Generate unique ID for article
-   */
-  private generateId(title: string): string {
-    return title
-      .toLowerCase()
-      .replace(/[^a-z0-9]/g, '-')
-      .replace(/-+/g, '-')
-      .replace(/^-|-$/g, '')
-      .substring(0, 50);
-  }
-
-  /**
-   * Remove duplicate articles based on title similarity, keeping the most specific category
-   */
-  private removeDuplicates(articles: NewsArticle[]): NewsArticle[] {
-    const articleMap = new Map<string, NewsArticle>();
-    
-    for (const article of articles) {
-      const normalizedTitle = article.title.toLowerCase().replace(/\s+/g, ' ');
-      
-      if (articleMap.has(normalizedTitle)) {
-        const existing = articleMap.get(normalizedTitle)!;
-        // Keep the article with the more specific category (not General)
-        if (article.category !== 'General' && existing.category === 'General') {
-          articleMap.set(normalizedTitle, article);
-        }
-      } else {
-        articleMap.set(normalizedTitle, article);
-      }
-    }
-    
-    return Array.from(articleMap.values());
-  }
 }
 
 export default ABCNewsScraper;
\ No newline at end of file
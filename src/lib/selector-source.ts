@@ -0,0 +1,92 @@
+import * as cheerio from 'cheerio';
+import type { NewsArticle } from './types';
+import { BaseNewsSource, type IngestionMode, type ListingPage, type NewsSourceOptions } from './news-source';
+
+/**
+ * Data-only description of an outlet that can be scraped with CSS selectors
+ */
+export interface SelectorSourceConfig {
+  id: string;
+  name: string;
+  baseUrl: string;
+  pages: ListingPage[];
+  /** RSS/Atom feeds, read instead of the pages when ingestion is 'feed' */
+  feeds?: ListingPage[];
+  /** Default ingestion mode for this outlet */
+  ingestion?: IngestionMode;
+  /** Selector matching the headline links on a listing page */
+  linkSelector: string;
+  /** Optional selector inside the link holding the headline text */
+  titleSelector?: string;
+  /** Only links whose href matches this pattern are treated as articles */
+  articleUrlPattern: RegExp;
+  /** Outlet section name -> app category */
+  categoryMap?: Record<string, string>;
+  maxArticles?: number;
+}
+
+/**
+ * Generic news source driven by a SelectorSourceConfig, so new outlets
+ * can be added without writing a scraper class
+ */
+class SelectorNewsSource extends BaseNewsSource {
+  id: string;
+  name: string;
+  baseUrl: string;
+  private config: SelectorSourceConfig;
+
+  constructor(config: SelectorSourceConfig, options: NewsSourceOptions = {}) {
+    super(options);
+    this.id = config.id;
+    this.name = config.name;
+    this.baseUrl = config.baseUrl;
+    this.config = config;
+    this.ingestion = config.ingestion || 'html';
+    if (config.maxArticles) {
+      this.maxArticles = config.maxArticles;
+    }
+  }
+
+  getListingPages(): ListingPage[] {
+    return this.config.pages;
+  }
+
+  getFeedPages(): ListingPage[] {
+    return this.config.feeds || [];
+  }
+
+  mapCategory(rawCategory: string): string {
+    return this.config.categoryMap?.[rawCategory] || rawCategory;
+  }
+
+  /**
+   * Extract headline links matching the configured selectors
+   */
+  extractArticles($: cheerio.Root, page: ListingPage): NewsArticle[] {
+    const articles: NewsArticle[] = [];
+    const category = this.mapCategory(page.category);
+    const seenUrls = new Set<string>();
+
+    $(this.config.linkSelector).each((_, element) => {
+      const $element = $(element);
+      const href = $element.attr('href');
+      const $title = this.config.titleSelector ? $element.find(this.config.titleSelector).first() : $element;
+      const title = ($title.length > 0 ? $title : $element).text().trim();
+
+      if (!href || !title || title.length <= 15 || !this.config.articleUrlPattern.test(href)) {
+        return;
+      }
+
+      const fullUrl = this.buildFullUrl(href);
+      if (seenUrls.has(fullUrl)) return;
+      seenUrls.add(fullUrl);
+
+      articles.push(this.createArticle(title, fullUrl, category, this.extractCardDetails($, element, title)));
+    });
+
+    this.countStrategy('selector', articles.length);
+    return articles;
+  }
+}
+
+export default SelectorNewsSource;
@@ -0,0 +1,203 @@
+import ABCNewsScraper from './scraper';
+import SelectorNewsSource, { type SelectorSourceConfig } from './selector-source';
+import type { IngestionMode, NewsSource } from './news-source';
+
+type NewsSourceFactory = () => NewsSource;
+
+/**
+ * Parsed source selection, written as "id" or "id:mode" (e.g. "abc:feed")
+ */
+export interface SourceSelection {
+  id: string;
+  ingestion?: IngestionMode;
+}
+
+/**
+ * Registry of available news source adapters, keyed by source id
+ */
+export class NewsSourceRegistry {
+  private factories = new Map<string, NewsSourceFactory>();
+
+  /**
+   * Register (or replace) a news source factory
+   */
+  register(id: string, factory: NewsSourceFactory): void {
+    this.factories.set(id, factory);
+  }
+
+  has(id: string): boolean {
+    return this.factories.has(id);
+  }
+
+  /**
+   * Create a news source instance from an "id" or "id:mode" spec
+   */
+  create(spec: string): NewsSource {
+    const { id, ingestion } = parseSourceSelection(spec);
+    const factory = this.factories.get(id);
+    if (!factory) {
+      throw new Error(`Unknown news source: ${id}. Available sources: ${this.list().join(', ')}`);
+    }
+
+    const source = factory();
+    if (ingestion) {
+      source.ingestion = ingestion;
+    }
+    return source;
+  }
+
+  /**
+   * Create several news sources at once, keeping the first spec for each id
+   * so a source listed twice is only scraped once
+   */
+  createSources(specs: string[]): NewsSource[] {
+    const selected = new Set<string>();
+    const sources: NewsSource[] = [];
+
+    for (const spec of specs) {
+      const { id } = parseSourceSelection(spec);
+      if (selected.has(id)) {
+        console.warn(`⚠️ News source ${id} is selected more than once, ignoring "${spec}"`);
+        continue;
+      }
+      selected.add(id);
+      sources.push(this.create(spec));
+    }
+    return sources;
+  }
+
+  list(): string[] {
+    return Array.from(this.factories.keys());
+  }
+}
+
+/**
+ * Built-in outlets scraped through the generic selector adapter
+ */
+export const builtInSelectorSources: SelectorSourceConfig[] = [
+  {
+    id: 'bbc',
+    name: 'BBC News',
+    baseUrl: 'https://www.bbc.com',
+    pages: [
+      { url: 'https://www.bbc.com/news', category: 'General' },
+      { url: 'https://www.bbc.com/news/world', category: 'World' },
+      { url: 'https://www.bbc.com/business', category: 'Business' },
+      { url: 'https://www.bbc.com/innovation/technology', category: 'Technology' },
+      { url: 'https://www.bbc.com/sport', category: 'Sport' }
+    ],
+    feeds: [
+      { url: 'https://feeds.bbci.co.uk/news/rss.xml', category: 'General' },
+      { url: 'https://feeds.bbci.co.uk/news/world/rss.xml', category: 'World' },
+      { url: 'https://feeds.bbci.co.uk/news/business/rss.xml', category: 'Business' },
+      { url: 'https://feeds.bbci.co.uk/news/technology/rss.xml', category: 'Technology' },
+      { url: 'https://feeds.bbci.co.uk/sport/rss.xml', category: 'Sport' }
+    ],
+    ingestion: 'feed',
+    linkSelector: 'a[href]',
+    titleSelector: 'h2, h3',
+    articleUrlPattern: /\/(news|sport)\/articles\//,
+    categoryMap: { World: 'International', Sport: 'Sports' }
+  },
+  {
+    id: 'npr',
+    name: 'NPR',
+    baseUrl: 'https://www.npr.org',
+    pages: [
+      { url: 'https://www.npr.org/sections/news/', category: 'General' },
+      { url: 'https://www.npr.org/sections/world/', category: 'World' },
+      { url: 'https://www.npr.org/sections/politics/', category: 'Politics' },
+      { url: 'https://www.npr.org/sections/business/', category: 'Business' },
+      { url: 'https://www.npr.org/sections/technology/', category: 'Technology' }
+    ],
+    feeds: [
+      { url: 'https://feeds.npr.org/1001/rss.xml', category: 'General' },
+      { url: 'https://feeds.npr.org/1004/rss.xml', category: 'World' },
+      { url: 'https://feeds.npr.org/1014/rss.xml', category: 'Politics' },
+      { url: 'https://feeds.npr.org/1006/rss.xml', category: 'Business' },
+      { url: 'https://feeds.npr.org/1019/rss.xml', category: 'Technology' }
+    ],
+    ingestion: 'feed',
+    linkSelector: 'h2.title a, h3.title a',
+    articleUrlPattern: /\/\d{4}\/\d{2}\/\d{2}\//,
+    categoryMap: { World: 'International' }
+  },
+  {
+    id: 'reuters',
+    name: 'Reuters',
+    baseUrl: 'https://www.reuters.com',
+    pages: [
+      { url: 'https://www.reuters.com/world/', category: 'World' },
+      { url: 'https://www.reuters.com/business/', category: 'Business' },
+      { url: 'https://www.reuters.com/technology/', category: 'Technology' },
+      { url: 'https://www.reuters.com/sports/', category: 'Sports' }
+    ],
+    linkSelector: 'a[data-testid="Heading"], a[data-testid="Title"], h3 a',
+    articleUrlPattern: /-\d{4}-\d{2}-\d{2}\/?$/,
+    categoryMap: { World: 'International' }
+  },
+  {
+    id: 'the-hindu',
+    name: 'The Hindu',
+    baseUrl: 'https://www.thehindu.com',
+    pages: [
+      { url: 'https://www.thehindu.com/news/national/', category: 'National' },
+      { url: 'https://www.thehindu.com/news/international/', category: 'International' },
+      { url: 'https://www.thehindu.com/business/', category: 'Business' },
+      { url: 'https://www.thehindu.com/news/cities/', category: 'Cities' },
+      { url: 'https://www.thehindu.com/sci-tech/technology/', category: 'Technology' },
+      { url: 'https://www.thehindu.com/sport/', category: 'Sport' }
+    ],
+    feeds: [
+      { url: 'https://www.thehindu.com/news/national/feeder/default.rss', category: 'National' },
+      { url: 'https://www.thehindu.com/news/international/feeder/default.rss', category: 'International' },
+      { url: 'https://www.thehindu.com/business/feeder/default.rss', category: 'Business' },
+      { url: 'https://www.thehindu.com/news/cities/feeder/default.rss', category: 'Cities' },
+      { url: 'https://www.thehindu.com/sci-tech/technology/feeder/default.rss', category: 'Technology' },
+      { url: 'https://www.thehindu.com/sport/feeder/default.rss', category: 'Sport' }
+    ],
+    ingestion: 'feed',
+    linkSelector: 'h3.title a, h2.title a, .element .title a',
+    articleUrlPattern: /article\d+\.ece/,
+    categoryMap: { Sport: 'Sports' }
+  }
+];
+
+/**
+ * Default registry with every built-in outlet registered
+ */
+export const newsSourceRegistry = new NewsSourceRegistry();
+
+newsSourceRegistry.register('abc', () => new ABCNewsScraper());
+for (const config of builtInSelectorSources) {
+  newsSourceRegistry.register(config.id, () => new SelectorNewsSource(config));
+}
+
+/**
+ * Parse an "id" or "id:mode" source spec
+ */
+export function parseSourceSelection(spec: string): SourceSelection {
+  const [id, mode] = spec.split(':').map(part => part.trim());
+
+  if (!id) {
+    throw new Error(`Invalid news source "${spec}". Use "id" or "id:mode"`);
+  }
+  if (mode && mode !== 'html' && mode !== 'feed') {
+    throw new Error(`Invalid ingestion mode "${mode}" for news source ${id}. Use "html" or "feed"`);
+  }
+
+  return { id, ingestion: (mode || undefined) as IngestionMode | undefined };
+}
+
+/**
+ * Source specs enabled through the NEWS_SOURCES env variable (comma separated,
+ * each entry "id" or "id:mode")
+ */
+export function getConfiguredSourceIds(): string[] {
+  const configured = (process.env.NEWS_SOURCES || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  return configured.length > 0 ? configured : ['abc'];
+}
@@ -0,0 +1,379 @@
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import path from 'path';
+import { resolveRange } from './news-archive';
+import { migrateCachedNews } from './cache-schema';
+import { DEFAULT_PERSONA_ID } from './personas';
+import type { CacheStorage } from './cache-storage';
+import type {
+  ArchivedArticle,
+  ArchiveQuery,
+  ArchiveStats,
+  CachedNews,
+  CacheMetadata,
+  NewsArticle,
+  NewsChangeSet,
+  ScrapeRun
+} from './types';
+
+interface ArticleRow {
+  data: string;
+  first_seen_at: string;
+  last_seen_at: string;
+  seen_count: number;
+}
+
+/**
+ * SQLite storage. Every article ever cached lives in one indexed `articles` table:
+ * rows with a current_rank make up the current snapshot, rows with seen_count > 0
+ * make up the archive. Snapshot headers live in `metadata`, per-refresh diffs in
+ * `changes`, scrape health metrics in `scrape_runs`, narrations in `narrations`.
+ * Snapshot writes run in one transaction, so they are atomic without temp files.
+ */
+export class SqliteCacheStorage implements CacheStorage {
+  readonly backend = 'sqlite' as const;
+
+  private db: Database.Database;
+  private dbPath: string;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+    fs.ensureDirSync(path.dirname(dbPath));
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.createSchema();
+  }
+
+  async readNews(): Promise<CachedNews | null> {
+    const header = this.getMetadataValue<Omit<CachedNews, 'articles'>>('news');
+    if (!header) {
+      return null;
+    }
+
+    const rows = this.db
+      .prepare('SELECT data FROM articles WHERE current_rank IS NOT NULL ORDER BY current_rank')
+      .all() as Pick<ArticleRow, 'data'>[];
+
+    try {
+      // Null for a snapshot written by a newer version
+      return migrateCachedNews({
+        ...header,
+        articles: rows.map(row => JSON.parse(row.data))
+      })?.news ?? null;
+    } catch (error) {
+      console.error('❌ Cached news failed validation:', error);
+      return null;
+    }
+  }
+
+  async writeNews(news: CachedNews, metadata: CacheMetadata): Promise<void> {
+    const { articles, ...header } = news;
+
+    // New rows start with seen_count 0 so they only join the archive once recorded
+    const upsert = this.db.prepare(`
+      INSERT INTO articles (url, id, title, category_key, source_id, source, published_ms,
+        first_seen_at, last_seen_at, first_seen_ms, last_seen_ms, seen_count, current_rank, data)
+      VALUES (@url, @id, @title, @categoryKey, @sourceId, @source, @publishedMs,
+        @seenAt, @seenAt, @seenMs, @seenMs, 0, @rank, @data)
+      ON CONFLICT(url) DO UPDATE SET
+        id = excluded.id,
+        title = excluded.title,
+        category_key = excluded.category_key,
+        source_id = excluded.source_id,
+        source = excluded.source,
+        published_ms = excluded.published_ms,
+        current_rank = excluded.current_rank,
+        data = excluded.data
+    `);
+
+    this.db.transaction(() => {
+      this.db.prepare('UPDATE articles SET current_rank = NULL WHERE current_rank IS NOT NULL').run();
+      articles.forEach((article, rank) => {
+        upsert.run({ ...this.toColumns(article, news.scrapedAt), rank });
+      });
+      this.setMetadataValue('news', header);
+      this.setMetadataValue('cache', metadata);
+    })();
+  }
+
+  async readMetadata(): Promise<CacheMetadata | null> {
+    return this.getMetadataValue<CacheMetadata>('cache');
+  }
+
+  async getLastWrite(): Promise<Date | null> {
+    const header = this.getMetadataValue<Omit<CachedNews, 'articles'>>('news');
+    return header ? new Date(header.lastUpdated) : null;
+  }
+
+  async getSize(): Promise<number> {
+    try {
+      const stats = await fs.stat(this.dbPath);
+      return stats.size;
+    } catch {
+      return 0;
+    }
+  }
+
+  async clearNews(): Promise<void> {
+    // The archive outlives the current snapshot, as with the file backend
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM articles WHERE seen_count = 0').run();
+      this.db.prepare('UPDATE articles SET current_rank = NULL WHERE current_rank IS NOT NULL').run();
+      this.db.prepare("DELETE FROM metadata WHERE key IN ('news', 'cache')").run();
+    })();
+  }
+
+  async recordArticles(articles: NewsArticle[], seenAt: string = new Date().toISOString()): Promise<{ added: number; updated: number }> {
+    const existing = this.db.prepare('SELECT seen_count FROM articles WHERE url = ?');
+    const upsert = this.db.prepare(`
+      INSERT INTO articles (url, id, title, category_key, source_id, source, published_ms,
+        first_seen_at, last_seen_at, first_seen_ms, last_seen_ms, seen_count, current_rank, data)
+      VALUES (@url, @id, @title, @categoryKey, @sourceId, @source, @publishedMs,
+        @seenAt, @seenAt, @seenMs, @seenMs, 1, NULL, @data)
+      ON CONFLICT(url) DO UPDATE SET
+        id = excluded.id,
+        title = excluded.title,
+        category_key = excluded.category_key,
+        source_id = excluded.source_id,
+        source = excluded.source,
+        published_ms = excluded.published_ms,
+        first_seen_at = CASE WHEN articles.seen_count = 0 THEN excluded.first_seen_at ELSE articles.first_seen_at END,
+        first_seen_ms = CASE WHEN articles.seen_count = 0 THEN excluded.first_seen_ms ELSE articles.first_seen_ms END,
+        last_seen_at = excluded.last_seen_at,
+        last_seen_ms = excluded.last_seen_ms,
+        seen_count = articles.seen_count + 1,
+        data = excluded.data
+    `);
+
+    const result = this.db.transaction(() => {
+      let added = 0;
+      let updated = 0;
+
+      for (const article of articles) {
+        const row = existing.get(article.url) as Pick<ArticleRow, 'seen_count'> | undefined;
+        if (row && row.seen_count > 0) {
+          updated++;
+        } else {
+          added++;
+        }
+        upsert.run(this.toColumns(article, seenAt));
+      }
+
+      return { added, updated };
+    })();
+
+    console.log(`🗄️ Archived ${result.added} new and ${result.updated} known articles`);
+    return result;
+  }
+
+  async queryArticles(query: ArchiveQuery): Promise<ArchivedArticle[]> {
+    const { from, to } = resolveRange(query);
+    const conditions = [
+      'seen_count > 0',
+      '((published_ms BETWEEN @from AND @to) OR (first_seen_ms <= @to AND last_seen_ms >= @from))'
+    ];
+
+    if (query.category) {
+      conditions.push('category_key = @category');
+    }
+    if (query.source) {
+      conditions.push('(source_id = @source OR source = @source)');
+    }
+
+    const rows = this.db.prepare(`
+      SELECT data, first_seen_at, last_seen_at, seen_count FROM articles
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY published_ms DESC
+      ${query.limit ? 'LIMIT @limit' : ''}
+    `).all({
+      from,
+      to,
+      category: query.category?.toLowerCase(),
+      source: query.source,
+      limit: query.limit
+    }) as ArticleRow[];
+
+    return rows.map(row => this.toArchivedArticle(row));
+  }
+
+  async getArticleByUrl(url: string): Promise<ArchivedArticle | null> {
+    const row = this.db
+      .prepare('SELECT data, first_seen_at, last_seen_at, seen_count FROM articles WHERE url = ? AND seen_count > 0')
+      .get(url) as ArticleRow | undefined;
+    return row ? this.toArchivedArticle(row) : null;
+  }
+
+  async getArchiveStats(): Promise<ArchiveStats> {
+    const row = this.db.prepare(`
+      SELECT COUNT(*) AS total, MIN(first_seen_at) AS oldest, MAX(last_seen_at) AS newest
+      FROM articles WHERE seen_count > 0
+    `).get() as { total: number; oldest: string | null; newest: string | null };
+
+    return {
+      totalArticles: row.total,
+      oldestSeenAt: row.oldest,
+      newestSeenAt: row.newest
+    };
+  }
+
+  async recordChanges(changeSet: NewsChangeSet): Promise<void> {
+    this.db
+      .prepare('INSERT INTO changes (at, at_ms, data) VALUES (?, ?, ?)')
+      .run(changeSet.at, new Date(changeSet.at).getTime(), JSON.stringify(changeSet));
+  }
+
+  async getChangesSince(since: string): Promise<NewsChangeSet[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM changes WHERE at_ms > ? ORDER BY at_ms, id')
+      .all(new Date(since).getTime()) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data) as NewsChangeSet);
+  }
+
+  async recordScrapeRun(run: ScrapeRun): Promise<void> {
+    this.db
+      .prepare('INSERT INTO scrape_runs (at, at_ms, data) VALUES (?, ?, ?)')
+      .run(run.at, new Date(run.at).getTime(), JSON.stringify(run));
+  }
+
+  async getScrapeRuns(limit: number): Promise<ScrapeRun[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM scrape_runs ORDER BY at_ms DESC, id DESC LIMIT ?')
+      .all(limit) as { data: string }[];
+    return rows.reverse().map(row => JSON.parse(row.data) as ScrapeRun);
+  }
+
+  async getNarration<T = unknown>(newsLink: string, persona: string = DEFAULT_PERSONA_ID): Promise<T | null> {
+    const row = this.db
+      .prepare('SELECT data FROM narrations WHERE news_link = ? AND persona = ?')
+      .get(newsLink, persona) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) as T : null;
+  }
+
+  async storeNarration(newsLink: string, narration: unknown, persona: string = DEFAULT_PERSONA_ID): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO narrations (news_link, persona, data, created_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(news_link, persona) DO UPDATE SET data = excluded.data, created_at = excluded.created_at
+    `).run(newsLink, persona, JSON.stringify(narration), new Date().toISOString());
+  }
+
+  private createSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS articles (
+        url TEXT PRIMARY KEY,
+        id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        category_key TEXT NOT NULL,
+        source_id TEXT,
+        source TEXT,
+        published_ms INTEGER,
+        first_seen_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        first_seen_ms INTEGER NOT NULL,
+        last_seen_ms INTEGER NOT NULL,
+        seen_count INTEGER NOT NULL DEFAULT 0,
+        current_rank INTEGER,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_articles_category ON articles (category_key, published_ms);
+      CREATE INDEX IF NOT EXISTS idx_articles_published ON articles (published_ms);
+      CREATE INDEX IF NOT EXISTS idx_articles_seen ON articles (first_seen_ms, last_seen_ms);
+      CREATE INDEX IF NOT EXISTS idx_articles_current ON articles (current_rank) WHERE current_rank IS NOT NULL;
+
+      CREATE TABLE IF NOT EXISTS changes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        at TEXT NOT NULL,
+        at_ms INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_changes_at ON changes (at_ms);
+
+      CREATE TABLE IF NOT EXISTS scrape_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        at TEXT NOT NULL,
+        at_ms INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_scrape_runs_at ON scrape_runs (at_ms);
+
+      CREATE TABLE IF NOT EXISTS narrations (
+        news_link TEXT NOT NULL,
+        persona TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (news_link, persona)
+      );
+
+      CREATE TABLE IF NOT EXISTS metadata (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+    this.migrateNarrations();
+  }
+
+  /**
+   * Databases from before narrator personas key narrations by link alone;
+   * rebuild the table so those narrations belong to the default persona
+   */
+  private migrateNarrations(): void {
+    const columns = this.db.prepare('PRAGMA table_info(narrations)').all() as { name: string }[];
+    if (columns.some(column => column.name === 'persona')) {
+      return;
+    }
+
+    this.db.transaction(() => {
+      this.db.exec(`
+        ALTER TABLE narrations RENAME TO narrations_legacy;
+        CREATE TABLE narrations (
+          news_link TEXT NOT NULL,
+          persona TEXT NOT NULL,
+          data TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (news_link, persona)
+        );
+      `);
+      this.db
+        .prepare('INSERT INTO narrations (news_link, persona, data, created_at) SELECT news_link, ?, data, created_at FROM narrations_legacy')
+        .run(DEFAULT_PERSONA_ID);
+      this.db.exec('DROP TABLE narrations_legacy');
+    })();
+  }
+
+  private toColumns(article: NewsArticle, seenAt: string) {
+    const publishedMs = new Date(article.publishedAt).getTime();
+    return {
+      url: article.url,
+      id: article.id,
+      title: article.title,
+      categoryKey: article.category.toLowerCase(),
+      sourceId: article.sourceId ?? null,
+      source: article.source ?? null,
+      publishedMs: isNaN(publishedMs) ? null : publishedMs,
+      seenAt,
+      seenMs: new Date(seenAt).getTime(),
+      data: JSON.stringify(article)
+    };
+  }
+
+  private toArchivedArticle(row: ArticleRow): ArchivedArticle {
+    return {
+      ...JSON.parse(row.data) as NewsArticle,
+      firstSeenAt: row.first_seen_at,
+      lastSeenAt: row.last_seen_at,
+      seenCount: row.seen_count
+    };
+  }
+
+  private getMetadataValue<T>(key: string): T | null {
+    const row = this.db.prepare('SELECT value FROM metadata WHERE key = ?').get(key) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) as T : null;
+  }
+
+  private setMetadataValue(key: string, value: unknown): void {
+    this.db.prepare(`
+      INSERT INTO metadata (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `).run(key, JSON.stringify(value));
+  }
+}
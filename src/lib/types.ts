@@ -5,12 +5,16 @@ export interface NewsArticle {
   category: string;
   summary?: string;
   imageUrl?: string;
+  author?: string;
   publishedAt: string;
   scrapedAt: string;
+  source?: string;
+  sourceId?: string;
 }
 
 export interface ScrapedNewsData {
   source: string;
+  sources?: string[];
   scrapedAt: string;
   totalArticles: number;
   articles: NewsArticle[];
@@ -21,6 +25,7 @@ export interface NewsData {
   data: {
     lastUpdated: string;
     source: string;
+    sources?: string[];
     totalArticles: number;
     articles: NewsArticle[];
     fromCache?: boolean;
@@ -28,6 +33,7 @@ export interface NewsData {
     cacheInfo?: CacheInfo;
     isStale?: boolean;
     error?: string;
+    changes?: NewsChanges;
   };
   timestamp: string;
 }
@@ -38,4 +44,119 @@ export interface CacheInfo {
   articlesCount: number;
 }
 
+export interface CachedNews extends ScrapedNewsData {
+  /** Cache layout version, see cache-schema.ts */
+  schemaVersion?: number;
+  lastUpdated: string;
+}
+
+export interface CacheMetadata {
+  lastRefresh: string | null;
+  nextScheduledRefresh: string | null;
+  totalArticlesCached: number;
+  cacheSize: number;
+}
+
+export interface ArchivedArticle extends NewsArticle {
+  firstSeenAt: string;
+  lastSeenAt: string;
+  seenCount: number;
+}
+
+export interface ArchiveQuery {
+  /** A single day, YYYY-MM-DD */
+  date?: string;
+  from?: string;
+  to?: string;
+  category?: string;
+  source?: string;
+  limit?: number;
+}
+
+export interface ArchiveStats {
+  totalArticles: number;
+  oldestSeenAt: string | null;
+  newestSeenAt: string | null;
+}
+
+export interface TitleChange {
+  url: string;
+  previousTitle: string;
+  title: string;
+}
+
+/**
+ * What one refresh changed compared to the previous snapshot, by article URL
+ */
+export interface NewsChangeSet {
+  at: string;
+  added: string[];
+  removed: string[];
+  titleChanged: TitleChange[];
+}
+
+/**
+ * Net changes across every refresh after `since`
+ */
+export interface NewsChanges {
+  since: string;
+  refreshes: number;
+  added: string[];
+  removed: string[];
+  titleChanged: TitleChange[];
+}
+
+/**
+ * One listing page (one category) of a source in a scrape run
+ */
+export interface PageScrapeMetrics {
+  category: string;
+  url: string;
+  /** HTTP status of the listing page; 0 for network errors and robots.txt refusals */
+  status: number;
+  notModified: boolean;
+  durationMs: number;
+  articles: number;
+  /** Articles found by each extraction strategy, e.g. headlines, main-content, fallback-links, feed */
+  strategies: Record<string, number>;
+  error?: string;
+}
+
+export interface SourceScrapeMetrics {
+  sourceId: string;
+  source: string;
+  ingestion: 'html' | 'feed';
+  durationMs: number;
+  /** Articles kept after de-duplication */
+  articles: number;
+  pages: PageScrapeMetrics[];
+  /** Set when the whole source failed */
+  error?: string;
+}
+
+/**
+ * Metrics recorded for every scrape, full or partial
+ */
+export interface ScrapeRun {
+  at: string;
+  durationMs: number;
+  sources: SourceScrapeMetrics[];
+}
+
+/**
+ * A category whose latest scrape looks broken compared to its history
+ */
+export interface ScrapeAnomaly {
+  sourceId: string;
+  source: string;
+  category: string;
+  kind: 'fetch-failed' | 'empty' | 'yield-drop';
+  severity: 'warning' | 'critical';
+  at: string;
+  articles: number;
+  /** Rolling average yield of the previous successful runs, null without enough history */
+  average: number | null;
+  message: string;
+}
+
 export type Category = 'All' | 'National' | 'International' | 'Business' | 'Cities' | 'Technology' | 'Sports' | 'General';
\ No newline at end of file
@@ -0,0 +1,153 @@
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * Error for a URL the server must not fetch on a user's behalf
+ */
+export class UnsafeUrlError extends Error {
+  constructor(public url: string, reason: string) {
+    super(`Refusing to fetch ${url}: ${reason}`);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+export interface UrlGuardOptions {
+  /** Only these domains (and their subdomains) may be fetched */
+  allowedDomains?: string[];
+}
+
+// Loopback, private, link-local, shared, documentation, multicast and reserved ranges
+const blockedRanges = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => blockedRanges.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => blockedRanges.addSubnet(address as string, prefix as number, 'ipv6'));
+
+/**
+ * True for addresses that aren't reachable on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address it wraps
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  const ip = mapped ? mapped[1] : address;
+  const family = net.isIP(ip);
+
+  if (family === 4) return blockedRanges.check(ip, 'ipv4');
+  if (family === 6) return blockedRanges.check(ip, 'ipv6');
+  return true;
+}
+
+/**
+ * Allowed domains from NARRATOR_ALLOWED_DOMAINS (comma separated), or undefined for any public host
+ */
+export function getAllowedDomains(): string[] | undefined {
+  const domains = (process.env.NARRATOR_ALLOWED_DOMAINS || '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase().replace(/^\*?\./, ''))
+    .filter(Boolean);
+  return domains.length > 0 ? domains : undefined;
+}
+
+/**
+ * True when the host is one of the domains or a subdomain of one
+ */
+export function isAllowedDomain(hostname: string, allowedDomains: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return allowedDomains.some(domain => host === domain || host.endsWith(`.${domain}`));
+}
+
+/**
+ * Check that a user-supplied URL is http(s), on an allowed domain and resolves only
+ * to public addresses. Returns the parsed URL or throws UnsafeUrlError.
+ */
+export async function assertPublicUrl(rawUrl: string, options: UrlGuardOptions = {}): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new UnsafeUrlError(rawUrl, 'not a valid URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnsafeUrlError(rawUrl, `${url.protocol} URLs are not allowed, only http and https`);
+  }
+  if (url.username || url.password) {
+    throw new UnsafeUrlError(rawUrl, 'URLs with credentials are not allowed');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (options.allowedDomains && !isAllowedDomain(hostname, options.allowedDomains)) {
+    throw new UnsafeUrlError(rawUrl, `${hostname} is not an allowed news domain`);
+  }
+
+  let addresses: string[];
+  if (net.isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(hostname, { all: true })).map(entry => entry.address);
+    } catch {
+      throw new UnsafeUrlError(rawUrl, `could not resolve ${hostname}`);
+    }
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new UnsafeUrlError(rawUrl, `${hostname} points to a private or reserved address`);
+  }
+  return url;
+}
+
+/**
+ * DNS lookup for outgoing requests that refuses private addresses. Checking at
+ * connect time also covers redirects and DNS answers that change after validation.
+ */
+export function publicOnlyLookup(
+  hostname: string,
+  options: object,
+  callback: (error: Error | null, addresses: { address: string; family: 4 | 6 }[]) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    if (addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new UnsafeUrlError(hostname, `${hostname} points to a private or reserved address`), []);
+    }
+    callback(null, addresses.map(entry => ({ address: entry.address, family: entry.family === 6 ? 6 : 4 })));
+  });
+}
+
+/**
+ * Where a redirect is about to go, as follow-redirects passes it to beforeRedirect
+ */
+export interface RedirectTarget {
+  protocol?: string;
+  hostname?: string | null;
+  host?: string | null;
+  path?: string | null;
+}
+
+/**
+ * Redirect hook for outgoing requests: only http(s), no redirects to private IP
+ * literals (hostnames are checked by publicOnlyLookup when the connection opens)
+ * and, with allowedDomains, none off the allowed domains
+ */
+export function checkRedirect(redirect: RedirectTarget, options: UrlGuardOptions = {}): void {
+  const target = `${redirect.protocol}//${redirect.hostname || redirect.host}${redirect.path || ''}`;
+
+  if (redirect.protocol !== 'http:' && redirect.protocol !== 'https:') {
+    throw new UnsafeUrlError(target, 'redirect to a non-http(s) URL');
+  }
+
+  const hostname = String(redirect.hostname || redirect.host || '').replace(/^\[|\]$/g, '').toLowerCase();
+  if (net.isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new UnsafeUrlError(target, 'redirect to a private or reserved address');
+  }
+  if (options.allowedDomains && !isAllowedDomain(hostname, options.allowedDomains)) {
+    throw new UnsafeUrlError(target, `redirect to ${hostname}, which is not an allowed news domain`);
+  }
+}
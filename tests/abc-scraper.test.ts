@@ -0,0 +1,74 @@
+import * as cheerio from 'cheerio';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import ABCNewsScraper from '../src/lib/scraper';
+import { FixtureFetcher, abcListingRoutes, readFixture, toGolden } from './helpers/fixture-fetcher';
+
+// Articles without a timestamp on their card are stamped with the scrape time
+const NOW = new Date('2026-10-12T06:00:00.000Z');
+
+describe('ABCNewsScraper', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it.each(new ABCNewsScraper().getListingPages())('extracts the $category page', async page => {
+    const scraper = new ABCNewsScraper();
+    const articles = scraper.extractArticles(cheerio.load(readFixture(abcListingRoutes[page.url])), page);
+
+    expect(articles.length).toBeGreaterThan(0);
+    await expect(toGolden(articles)).toMatchFileSnapshot(`golden/abc/${page.category.toLowerCase()}.json`);
+  });
+
+  it('scrapes every category into one de-duplicated feed', async () => {
+    const fetcher = new FixtureFetcher(abcListingRoutes);
+    const { metrics, ...news } = await new ABCNewsScraper({ fetcher }).scrapeLatestNews();
+
+    expect(fetcher.requests).toEqual(Object.keys(abcListingRoutes));
+    expect(metrics?.pages.every(page => page.status === 200)).toBe(true);
+    await expect(toGolden(news)).toMatchFileSnapshot('golden/abc/latest-news.json');
+  });
+
+  it('keeps the section category for stories repeated on the homepage', async () => {
+    const news = await new ABCNewsScraper({ fetcher: new FixtureFetcher(abcListingRoutes) }).scrapeLatestNews();
+    const wildfire = news.articles.filter(article => article.title.startsWith('Wildfire near Boulder'));
+
+    expect(wildfire).toHaveLength(1);
+    expect(wildfire[0].category).toBe('US');
+  });
+
+  it('skips navigation, photo credits, live coverage and off-site links', async () => {
+    const news = await new ABCNewsScraper({ fetcher: new FixtureFetcher(abcListingRoutes) }).scrapeLatestNews();
+    const urls = news.articles.map(article => article.url);
+
+    expect(urls.some(url => url.includes('/live-coverage/') || url.includes('/alerts/') || url.includes('espn.com'))).toBe(false);
+    expect(news.articles.some(article => article.title === 'The Associated Press')).toBe(false);
+  });
+
+  it('records status and extraction strategy hits per category', async () => {
+    const { metrics } = await new ABCNewsScraper({ fetcher: new FixtureFetcher(abcListingRoutes) }).scrapeLatestNews();
+    const sports = metrics?.pages.find(page => page.category === 'Sports');
+    const politics = metrics?.pages.find(page => page.category === 'Politics');
+
+    // The sports template has no <main>, so its links come from the fallback patterns
+    expect(sports?.strategies).toEqual({ headlines: 2, 'fallback-links': 1 });
+    expect(politics?.strategies).toEqual({ headlines: 4, 'main-content': 1 });
+  });
+
+  it('carries on when a category page fails', async () => {
+    const { 'https://abcnews.go.com/health': _health, ...routes } = abcListingRoutes;
+    const { metrics, articles } = await new ABCNewsScraper({ fetcher: new FixtureFetcher(routes) }).scrapeLatestNews();
+    const health = metrics?.pages.find(page => page.category === 'Health');
+
+    expect(health).toMatchObject({ status: 404, articles: 0, error: 'HTTP 404 for https://abcnews.go.com/health' });
+    expect(articles.some(article => article.category === 'Health')).toBe(false);
+    expect(articles.some(article => article.category === 'Politics')).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Agent, Task, createArchiveSearchTool, createArticleFetchTool, initializeCrew, type Tool } from '../src/lib/ai-agents';
+import { FileCacheStorage } from '../src/lib/cache-storage';
+import { ScriptedProvider, type LLMRequest } from '../src/lib/llm-provider';
+import type { NewsArticle } from '../src/lib/types';
+import { FixtureFetcher, articleRoutes } from './helpers/fixture-fetcher';
+
+const ARTICLE_URL = 'https://abcnews.go.com/politics/senate-passes-stopgap-funding-bill/story?id=126010960';
+
+function archived(id: string, title: string, seenAt: string, summary?: string): NewsArticle {
+  return {
+    id,
+    title,
+    url: `https://abcnews.go.com/politics/${id}`,
+    category: 'Politics',
+    summary,
+    source: 'ABC News',
+    publishedAt: seenAt,
+    scrapedAt: seenAt
+  };
+}
+
+const hasToolResults = (request: LLMRequest) => request.messages.some(message => message.role === 'tool');
+
+describe('agent tool calling', () => {
+  let cacheDir: string;
+  let storage: FileCacheStorage;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-tools-'));
+    storage = new FileCacheStorage(cacheDir);
+    await storage.recordArticles([archived('shutdown-2025', 'Government shutdown ends after 35 days', '2025-01-25T12:00:00Z')], '2025-01-25T12:00:00Z');
+    await storage.recordArticles([archived('stopgap-vote', 'House passes stopgap funding bill', '2026-09-30T12:00:00Z', 'Funding runs to December.')], '2026-09-30T12:00:00Z');
+    await storage.recordArticles([archived('weather', 'Storm season starts early', '2026-10-01T12:00:00Z')], '2026-10-01T12:00:00Z');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('lets the historian search the archive and read articles before answering', async () => {
+    const provider = new ScriptedProvider([
+      {
+        match: (request: LLMRequest) => request.messages[0].content.includes('expert historian') && !hasToolResults(request),
+        reply: {
+          toolCalls: [
+            { name: 'search_archive', arguments: { query: 'stopgap funding' } },
+            { name: 'fetch_article', arguments: { url: ARTICLE_URL } }
+          ]
+        }
+      },
+      { match: 'expert historian', reply: (request: LLMRequest) => `HISTORY based on ${request.messages.filter(m => m.role === 'tool').length} tool results` },
+      { match: 'objective journalist', reply: 'SUMMARY' },
+      { match: 'You are Roald Dahl', reply: 'STORY' }
+    ]);
+    const tools = [createArchiveSearchTool(storage), createArticleFetchTool({ fetcher: new FixtureFetcher(articleRoutes) })];
+
+    const { crew, historyTask } = initializeCrew(ARTICLE_URL, 'The Senate voted.', 'Senate vote', undefined, { provider, tools });
+    expect((await crew.kickoff()).finalOutput).toBe('STORY');
+
+    expect(historyTask.output).toBe('HISTORY based on 2 tool results');
+    expect(historyTask.toolCalls.map(({ iteration, tool, error }) => ({ iteration, tool, error }))).toEqual([
+      { iteration: 1, tool: 'search_archive', error: undefined },
+      { iteration: 1, tool: 'fetch_article', error: undefined }
+    ]);
+    expect(historyTask.toolCalls[0].output).toContain('House passes stopgap funding bill');
+    expect(historyTask.toolCalls[1].output).toContain('Title: Senate passes stopgap funding bill');
+
+    // Tools are advertised as JSON schemas, and only to the historian
+    const [research, followUpCall] = provider.calls.filter(call => call.messages[0].content.includes('expert historian'));
+    expect(research.tools?.map(tool => tool.name)).toEqual(['search_archive', 'fetch_article']);
+    expect(research.tools?.[1].parameters).toMatchObject({ required: ['url'] });
+    expect(provider.calls.find(call => call.messages[0].content.includes('objective journalist'))?.tools).toBeUndefined();
+
+    // Results go back to the model paired with the calls that asked for them
+    const followUp = followUpCall.messages;
+    expect(followUp[2]).toMatchObject({ role: 'assistant', toolCalls: [{ name: 'search_archive' }, { name: 'fetch_article' }] });
+    expect(followUp.slice(3).map(message => message.toolCallId)).toEqual(['call_1_1', 'call_1_2']);
+  });
+
+  it('stops offering tools after maxToolIterations and asks for an answer', async () => {
+    const lookup: Tool = { name: 'lookup', description: 'Look something up', execute: async input => `result for ${input}` };
+    const provider = new ScriptedProvider([
+      { match: () => true, reply: { content: 'Final answer', toolCalls: [{ name: 'lookup', arguments: { input: 'again' } }] } }
+    ]);
+    const agent = new Agent({ role: 'Researcher', goal: 'Research', backstory: 'Curious', tools: [lookup], maxToolIterations: 2 }, provider);
+    const task = new Task({ description: 'Find out', expected_output: 'Facts', agent });
+
+    expect(await task.execute()).toBe('Final answer');
+    expect(provider.calls.map(call => call.toolChoice)).toEqual(['auto', 'auto', 'none']);
+    expect(task.toolCalls).toHaveLength(2);
+    // Tools without a schema take a single `input` string
+    expect(task.toolCalls[0].output).toBe('result for again');
+    expect(provider.calls[0].tools?.[0].parameters).toMatchObject({ required: ['input'] });
+  });
+
+  it('reports failing and unknown tools back to the model', async () => {
+    const broken: Tool = { name: 'broken', description: 'Always fails', execute: async () => { throw new Error('service down'); } };
+    const provider = new ScriptedProvider([
+      { toolCalls: [{ name: 'broken' }, { name: 'missing' }] },
+      'Answered without tools'
+    ]);
+    const agent = new Agent({ role: 'Researcher', goal: 'Research', backstory: 'Curious', tools: [broken] }, provider);
+    const task = new Task({ description: 'Find out', expected_output: 'Facts', agent });
+
+    expect(await task.execute()).toBe('Answered without tools');
+    expect(task.toolCalls.map(call => call.error)).toEqual(['service down', 'Unknown tool "missing"']);
+    expect(provider.calls[1].messages.slice(3).map(message => message.content)).toEqual([
+      'Error: service down',
+      'Error: Unknown tool "missing"'
+    ]);
+  });
+
+  it('ranks archive matches by keyword and respects date ranges', async () => {
+    const tool = createArchiveSearchTool(storage);
+
+    const all = await tool.execute(JSON.stringify({ query: 'stopgap funding shutdown' }));
+    expect(all.split('\n').filter(line => line.startsWith('- '))).toEqual([
+      '- 2026-09-30 | Politics | ABC News | House passes stopgap funding bill',
+      '- 2025-01-25 | Politics | ABC News | Government shutdown ends after 35 days'
+    ]);
+
+    expect(await tool.execute(JSON.stringify({ query: 'shutdown', from: '2026-01-01' }))).toBe('No archived articles match "shutdown".');
+    await expect(tool.execute(JSON.stringify({ query: 'a' }))).rejects.toThrow('query needs at least one keyword');
+  });
+
+  it('refuses to fetch articles outside the allowed domains', async () => {
+    const fetcher = new FixtureFetcher(articleRoutes);
+    const tool = createArticleFetchTool({ fetcher, allowedDomains: ['bbc.co.uk'] });
+
+    await expect(tool.execute(JSON.stringify({ url: ARTICLE_URL }))).rejects.toThrow('abcnews.go.com is not an allowed news domain');
+    await expect(tool.execute(JSON.stringify({ url: 'file:///etc/passwd' }))).rejects.toThrow('Only http and https');
+    expect(fetcher.requests).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { extractArticleMetadata } from '../src/lib/article-metadata';
+
+const PAGE_URL = 'https://news.example.org/politics/budget-vote';
+
+function metadataFor(jsonLd: unknown, head = '') {
+  const html = `<html><head>${head}<script type="application/ld+json">${JSON.stringify(jsonLd)}</script></head><body></body></html>`;
+  return extractArticleMetadata(cheerio.load(html), PAGE_URL);
+}
+
+describe('extractArticleMetadata', () => {
+  it('reads an ImageObject image', () => {
+    const metadata = metadataFor({ '@type': 'NewsArticle', image: { '@type': 'ImageObject', url: '/images/vote.jpg', width: 1200 } });
+    expect(metadata.imageUrl).toBe('https://news.example.org/images/vote.jpg');
+  });
+
+  it('reads the first usable image from a list of ImageObjects', () => {
+    const metadata = metadataFor({
+      '@type': 'NewsArticle',
+      image: [{ '@type': 'ImageObject', width: 100 }, { '@type': 'ImageObject', contentUrl: 'https://cdn.example.org/vote-wide.jpg' }]
+    });
+    expect(metadata.imageUrl).toBe('https://cdn.example.org/vote-wide.jpg');
+  });
+
+  it('reads the first image from a list of URLs', () => {
+    const metadata = metadataFor({ '@type': 'NewsArticle', image: ['https://cdn.example.org/vote-1x1.jpg', 'https://cdn.example.org/vote-16x9.jpg'] });
+    expect(metadata.imageUrl).toBe('https://cdn.example.org/vote-1x1.jpg');
+  });
+
+  it('ignores JSON-LD values of the wrong type and falls back to meta tags', () => {
+    const metadata = metadataFor(
+      {
+        '@type': ['WebPage', 'NewsArticle'],
+        headline: 42,
+        image: { '@type': 'ImageObject', url: { nested: true } },
+        mainEntityOfPage: { '@type': 'WebPage' },
+        author: [{ '@type': 'Person', name: 'Jane Doe' }, { '@type': 'Person' }],
+        datePublished: ['2026-10-19'],
+        keywords: ['budget', 'senate, vote']
+      },
+      '<meta property="og:image" content="https://cdn.example.org/og.jpg"><link rel="canonical" href="/politics/budget-vote?amp=0">'
+    );
+
+    expect(metadata).toMatchObject({
+      headline: undefined,
+      imageUrl: 'https://cdn.example.org/og.jpg',
+      canonicalUrl: 'https://news.example.org/politics/budget-vote?amp=0',
+      authors: ['Jane Doe'],
+      publishedAt: undefined,
+      keywords: ['budget', 'senate', 'vote']
+    });
+  });
+
+  it('finds the article node inside @graph and reads mainEntityOfPage ids', () => {
+    const metadata = metadataFor({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'WebSite', name: 'Example News' },
+        {
+          '@type': 'NewsArticle',
+          headline: 'Budget passes',
+          mainEntityOfPage: { '@id': 'https://news.example.org/politics/budget-vote' },
+          publisher: { '@type': 'Organization', name: 'Example News' }
+        }
+      ]
+    });
+
+    expect(metadata).toMatchObject({
+      headline: 'Budget passes',
+      canonicalUrl: 'https://news.example.org/politics/budget-vote',
+      siteName: 'Example News'
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { scrapeArticle } from '../src/lib/article-scraper';
+import { FixtureFetcher, articleRoutes, toGolden } from './helpers/fixture-fetcher';
+
+describe('scrapeArticle', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    { layout: 'abc-story', url: 'https://abcnews.go.com/politics/senate-passes-stopgap-funding-bill/story?id=126010960', strategy: 'selector' },
+    { layout: 'paginated', url: 'https://news.example.org/features/power-grid', strategy: 'selector' },
+    { layout: 'blog-readability', url: 'https://blog.example.net/2026/10/small-town-library', strategy: 'readability' }
+  ])('extracts the $layout layout', async ({ layout, url, strategy }) => {
+    const article = await scrapeArticle(url, { fetcher: new FixtureFetcher(articleRoutes) });
+
+    expect(article.success).toBe(true);
+    expect(article.extractionStrategy).toBe(strategy);
+    await expect(toGolden(article)).toMatchFileSnapshot(`golden/articles/${layout}.json`);
+  });
+
+  it('strips ads, related links and page chrome from the body', async () => {
+    const article = await scrapeArticle('https://abcnews.go.com/politics/senate-passes-stopgap-funding-bill/story?id=126010960', {
+      fetcher: new FixtureFetcher(articleRoutes)
+    });
+
+    expect(article.content).not.toMatch(/Advertisement|Read more|Copyright/);
+    expect(article.blocks?.map(block => block.type)).toContain('quote');
+  });
+
+  it('stitches split articles together without repeating the headline', async () => {
+    const fetcher = new FixtureFetcher(articleRoutes);
+    const article = await scrapeArticle('https://news.example.org/features/power-grid', { fetcher });
+
+    expect(fetcher.requests).toEqual([
+      'https://news.example.org/features/power-grid',
+      'https://news.example.org/features/power-grid?page=2'
+    ]);
+    expect(article.pageCount).toBe(2);
+    expect(article.content.match(/Utilities are spending record sums/g)).toHaveLength(1);
+  });
+
+  it('does not follow "next story" links to other articles', async () => {
+    const fetcher = new FixtureFetcher(articleRoutes);
+    const article = await scrapeArticle('https://news.example.org/local/bus-lanes', { fetcher });
+
+    expect(fetcher.requests).toEqual(['https://news.example.org/local/bus-lanes']);
+    expect(article.pageCount).toBe(1);
+    expect(article.content).toContain('dedicated bus lanes');
+  });
+
+  it('keeps story paragraphs that mention cookies or copyright', async () => {
+    const article = await scrapeArticle('https://tech.example.com/policy/cookie-banners', { fetcher: new FixtureFetcher(articleRoutes) });
+
+    expect(article.extractionStrategy).toBe('readability');
+    expect(article.blocks).toHaveLength(4);
+    expect(article.content).toContain('subscribe to a paid newsletter instead of accepting cookies');
+    expect(article.content).toContain('does not touch copyright');
+    // The short consent and copyright notices are still dropped
+    expect(article.content).not.toMatch(/We use cookies|All rights reserved/);
+  });
+
+  it('reads only the first page when pagination is off', async () => {
+    const fetcher = new FixtureFetcher(articleRoutes);
+    const article = await scrapeArticle('https://news.example.org/features/power-grid', { fetcher, followPagination: false });
+
+    expect(fetcher.requests).toHaveLength(1);
+    expect(article.pageCount).toBe(1);
+  });
+
+  it('reports a failed fetch instead of throwing', async () => {
+    const article = await scrapeArticle('https://news.example.org/missing', { fetcher: new FixtureFetcher(articleRoutes) });
+
+    expect(article.success).toBe(false);
+    expect(article.error).toContain('HTTP 404');
+  });
+});
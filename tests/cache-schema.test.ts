@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CACHE_SCHEMA_VERSION,
+  migrateCachedNews,
+  validateCacheMetadata,
+  validateChangeSets,
+  validateNarration,
+  validateScrapeRuns
+} from '../src/lib/cache-schema';
+import { FileCacheStorage } from '../src/lib/cache-storage';
+
+const article = {
+  id: 'abc-1',
+  title: 'Senate passes stopgap funding bill',
+  url: 'https://abcnews.go.com/politics/stopgap',
+  category: 'Politics',
+  publishedAt: '2026-10-18T20:00:00.000Z',
+  scrapedAt: '2026-10-19T06:00:00.000Z'
+};
+
+const currentCache = {
+  schemaVersion: CACHE_SCHEMA_VERSION,
+  lastUpdated: '2026-10-19T06:00:00.000Z',
+  source: 'ABC News',
+  sources: ['ABC News'],
+  scrapedAt: '2026-10-19T06:00:00.000Z',
+  totalArticles: 1,
+  articles: [article]
+};
+
+// Written before schema versions and multi-source support
+const v1Cache = {
+  lastUpdated: '2026-10-01T06:00:00.000Z',
+  source: 'ABC News',
+  scrapedAt: '2026-10-01T06:00:00.000Z',
+  totalArticles: 1,
+  articles: [{ id: 'abc-0', title: 'Old story', url: 'https://abcnews.go.com/old', category: 'US' }]
+};
+
+describe('migrateCachedNews', () => {
+  it('accepts a current cache unchanged', () => {
+    expect(migrateCachedNews(currentCache)).toEqual({ news: currentCache, migrated: false });
+  });
+
+  it('migrates an unversioned cache, filling in sources and article dates', () => {
+    const { news, migrated } = migrateCachedNews(v1Cache)!;
+
+    expect(migrated).toBe(true);
+    expect(news.schemaVersion).toBe(CACHE_SCHEMA_VERSION);
+    expect(news.sources).toEqual(['ABC News']);
+    expect(news.articles[0]).toMatchObject({ scrapedAt: v1Cache.scrapedAt, publishedAt: v1Cache.scrapedAt });
+  });
+
+  it('skips caches written by a newer version without rejecting them', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(migrateCachedNews({ ...currentCache, schemaVersion: CACHE_SCHEMA_VERSION + 1 })).toBeNull();
+    vi.restoreAllMocks();
+  });
+
+  it('rejects caches without a usable shape', () => {
+    expect(() => migrateCachedNews({ ...currentCache, schemaVersion: 0 })).toThrow('no migration from cache schema v0');
+    expect(() => migrateCachedNews([currentCache])).toThrow('cache is not a JSON object');
+    expect(() => migrateCachedNews({ ...currentCache, source: 7 })).toThrow('cache field "source" is missing or not a string');
+    expect(() => migrateCachedNews({ ...currentCache, articles: 'none' })).toThrow('cache has no articles array');
+    expect(() => migrateCachedNews({ ...currentCache, totalArticles: '1' })).toThrow('"totalArticles" is missing or not a number');
+    expect(() => migrateCachedNews({ ...currentCache, articles: [article, { ...article, url: null }] }))
+      .toThrow('cached article #1 is missing required fields');
+    expect(() => migrateCachedNews({ ...v1Cache, articles: ['not an article'] })).toThrow('cached article #0');
+  });
+
+  it('checks cache metadata', () => {
+    expect(validateCacheMetadata({ lastRefresh: null, nextScheduledRefresh: null, totalArticlesCached: 1, cacheSize: 10 }))
+      .toMatchObject({ totalArticlesCached: 1 });
+    expect(() => validateCacheMetadata({ totalArticlesCached: '1', cacheSize: 10 })).toThrow('missing required fields');
+  });
+
+  it('checks the change history, scrape runs and narrations', () => {
+    const changeSet = { at: '2026-10-19T06:00:00.000Z', added: [], removed: [], titleChanged: [] };
+    expect(validateChangeSets([changeSet])).toEqual([changeSet]);
+    expect(() => validateChangeSets({ changes: [changeSet] })).toThrow('change set history is not a JSON array');
+    expect(() => validateChangeSets([changeSet, { at: changeSet.at }])).toThrow('change set #1 is missing required fields');
+
+    const run = { at: '2026-10-19T06:00:00.000Z', durationMs: 1200, sources: [] };
+    expect(validateScrapeRuns([run])).toEqual([run]);
+    expect(() => validateScrapeRuns([{ ...run, durationMs: '1200' }])).toThrow('scrape run #0 is missing required fields');
+
+    expect(validateNarration({ narration: 'Once upon a time' })).toEqual({ narration: 'Once upon a time' });
+    expect(() => validateNarration('Once upon a time')).toThrow('narration is not a JSON object');
+  });
+});
+
+describe('FileCacheStorage news cache', () => {
+  let cacheDir: string;
+  let cacheFile: string;
+  let storage: FileCacheStorage;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-schema-'));
+    cacheFile = path.join(cacheDir, 'news-cache.json');
+    storage = new FileCacheStorage(cacheDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  const quarantined = () => fs.existsSync(path.join(cacheDir, 'quarantine')) ? fs.readdirSync(path.join(cacheDir, 'quarantine')) : [];
+
+  it('migrates an old cache file once and writes it back, keeping its age', async () => {
+    fs.writeFileSync(cacheFile, JSON.stringify(v1Cache));
+    const writtenAt = new Date('2026-10-01T06:00:00.000Z');
+    fs.utimesSync(cacheFile, writtenAt, writtenAt);
+
+    // Reading the metadata reads (and migrates) the news cache too
+    await storage.readMetadata();
+
+    expect(JSON.parse(fs.readFileSync(cacheFile, 'utf8')).schemaVersion).toBe(CACHE_SCHEMA_VERSION);
+    expect((await storage.readNews())?.schemaVersion).toBe(CACHE_SCHEMA_VERSION);
+    // Cache expiry is measured from the last write, so a migrated old cache must stay old
+    expect(await storage.getLastWrite()).toEqual(writtenAt);
+    expect(quarantined()).toEqual([]);
+  });
+
+  it('quarantines corrupt cache files instead of serving them', async () => {
+    fs.writeFileSync(cacheFile, '{"lastUpdated": "2026-10-19T06:00:00.000Z", "articles": [');
+    expect(await storage.readNews()).toBeNull();
+    expect(fs.existsSync(cacheFile)).toBe(false);
+
+    fs.writeFileSync(cacheFile, JSON.stringify({ ...currentCache, articles: 'none' }));
+    expect(await storage.readNews()).toBeNull();
+    expect(fs.existsSync(cacheFile)).toBe(false);
+
+    expect(quarantined().length).toBeGreaterThan(0);
+  });
+
+  it('leaves caches from a newer version in place as a cache miss', async () => {
+    const newer = JSON.stringify({ ...currentCache, schemaVersion: CACHE_SCHEMA_VERSION + 1 });
+    fs.writeFileSync(cacheFile, newer);
+
+    expect(await storage.readNews()).toBeNull();
+    expect(fs.readFileSync(cacheFile, 'utf8')).toBe(newer);
+    expect(quarantined()).toEqual([]);
+  });
+
+  it('quarantines change and scrape histories of the wrong shape', async () => {
+    fs.writeFileSync(path.join(cacheDir, 'news-changes.json'), JSON.stringify({ added: [] }));
+    fs.writeFileSync(path.join(cacheDir, 'scrape-runs.json'), JSON.stringify([{ at: 'today' }]));
+
+    expect(await storage.getChangesSince('2026-10-01T00:00:00.000Z')).toEqual([]);
+    expect(await storage.getScrapeRuns(10)).toEqual([]);
+    expect(quarantined()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ScrapedArticle } from '../src/lib/article-scraper';
+import ArticleContentStore from '../src/lib/content-store';
+
+function makeScraped(url: string, content: string): ScrapedArticle {
+  return { title: 'Story', content, url, success: true };
+}
+
+describe('ArticleContentStore', () => {
+  let storeDir: string;
+  let store: ArticleContentStore;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'content-store-'));
+    store = new ArticleContentStore({ storeDir });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  it('keeps articles with the same id apart by URL', async () => {
+    // Two sources with the same headline get the same slug id
+    await store.store('storm-hits-coast', makeScraped('https://abcnews.go.com/us/storm', 'ABC body'));
+    await store.store('storm-hits-coast', makeScraped('https://www.bbc.com/news/storm', 'BBC body'));
+
+    expect((await store.getByUrl('https://abcnews.go.com/us/storm'))?.content).toBe('ABC body');
+    expect((await store.getByUrl('https://www.bbc.com/news/storm'))?.content).toBe('BBC body');
+    expect(await store.has('https://www.bbc.com/news/storm')).toBe(true);
+    expect(await store.count()).toBe(2);
+  });
+
+  it('stores articles whose title slug is empty', async () => {
+    // Non-Latin headlines slug to ""
+    await store.store('', makeScraped('https://www.bbc.com/hindi/articles/c1', 'पहला लेख'));
+    await store.store('', makeScraped('https://www.bbc.com/hindi/articles/c2', 'दूसरा लेख'));
+
+    expect((await store.getByUrl('https://www.bbc.com/hindi/articles/c1'))?.content).toBe('पहला लेख');
+    expect((await store.getByUrl('https://www.bbc.com/hindi/articles/c2'))?.content).toBe('दूसरा लेख');
+    expect(fs.readdirSync(storeDir)).not.toContain('.json');
+  });
+
+  it('matches URLs that differ only by fragment, host case or trailing slash', async () => {
+    await store.store('budget', makeScraped('https://abcnews.go.com/politics/budget/', 'Budget body'));
+
+    expect(await store.has('https://ABCNEWS.go.com/politics/budget#comments')).toBe(true);
+    expect(await store.has('https://abcnews.go.com/politics/budget?page=2')).toBe(false);
+  });
+
+  it('looks articles up by id through the URL index', async () => {
+    await store.store('budget', makeScraped('https://abcnews.go.com/politics/budget', 'Budget body'));
+
+    expect((await store.get('budget'))?.content).toBe('Budget body');
+    expect(await store.get('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Agent, Crew, Task } from '../src/lib/ai-agents';
+import type { LLMProvider, LLMRequest, LLMResponse } from '../src/lib/llm-provider';
+
+/**
+ * Provider that answers after a per-role delay and logs when each request starts and ends
+ */
+class TimedProvider implements LLMProvider {
+  readonly name = 'timed';
+  readonly events: string[] = [];
+
+  constructor(private delays: Record<string, number>, private failing: string[] = []) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const role = request.messages[0].content.match(/You are (\w+)/)?.[1] || 'unknown';
+    this.events.push(`start ${role}`);
+    await new Promise(resolve => setTimeout(resolve, this.delays[role] ?? 0));
+    this.events.push(`end ${role}`);
+
+    if (this.failing.includes(role)) {
+      throw new Error(`${role} is unavailable`);
+    }
+    return { content: `${role} output`, model: 'timed' };
+  }
+}
+
+function buildTasks(provider: LLMProvider, roles: string[]): Task[] {
+  return roles.map(role => new Task({
+    name: role.toLowerCase(),
+    description: `Work as ${role}`,
+    expected_output: 'Text',
+    agent: new Agent({ role, goal: 'Help', backstory: 'Experienced' }, provider)
+  }));
+}
+
+describe('Crew', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs independent tasks together and waits for context before dependants', async () => {
+    const provider = new TimedProvider({ Historian: 30, Journalist: 10 });
+    const [history, summary, story] = buildTasks(provider, ['Historian', 'Journalist', 'Storyteller']);
+    story.context = [history, summary];
+
+    const result = await new Crew({ agents: [], tasks: [history, summary, story] }).kickoff();
+
+    expect(provider.events).toEqual([
+      'start Historian', 'start Journalist', 'end Journalist', 'end Historian', 'start Storyteller', 'end Storyteller'
+    ]);
+    expect(result.finalOutput).toBe('Storyteller output');
+    expect(result.tasks.map(({ name, output, dependsOn }) => ({ name, output, dependsOn }))).toEqual([
+      { name: 'historian', output: 'Historian output', dependsOn: [] },
+      { name: 'journalist', output: 'Journalist output', dependsOn: [] },
+      { name: 'storyteller', output: 'Storyteller output', dependsOn: ['historian', 'journalist'] }
+    ]);
+
+    // The storyteller received both earlier outputs
+    expect(story.output).toBe('Storyteller output');
+  });
+
+  it('keeps to maxConcurrency', async () => {
+    const provider = new TimedProvider({ Historian: 10, Journalist: 10 });
+    const tasks = buildTasks(provider, ['Historian', 'Journalist']);
+
+    await new Crew({ agents: [], tasks, maxConcurrency: 1 }).kickoff();
+
+    expect(provider.events).toEqual(['start Historian', 'end Historian', 'start Journalist', 'end Journalist']);
+  });
+
+  it('refuses dependency cycles before running anything', async () => {
+    const provider = new TimedProvider({});
+    const [first, second, third] = buildTasks(provider, ['Historian', 'Journalist', 'Storyteller']);
+    first.context = [third];
+    second.context = [first];
+    third.context = [second];
+
+    await expect(new Crew({ agents: [], tasks: [first, second, third] }).kickoff())
+      .rejects.toThrow('Task dependency cycle: historian → storyteller → journalist → historian');
+    expect(provider.events).toEqual([]);
+  });
+
+  it('refuses context tasks that are not part of the crew', () => {
+    const provider = new TimedProvider({});
+    const [outsider, task] = buildTasks(provider, ['Historian', 'Journalist']);
+    task.context = [outsider];
+
+    expect(() => new Crew({ agents: [], tasks: [task] }).validate())
+      .toThrow('Task "journalist" depends on a task that is not part of the crew');
+  });
+
+  it('fails the run and starts nothing new once a task fails', async () => {
+    const provider = new TimedProvider({ Historian: 5, Journalist: 20 }, ['Historian']);
+    const [history, summary, story] = buildTasks(provider, ['Historian', 'Journalist', 'Storyteller']);
+    story.context = [history, summary];
+
+    await expect(new Crew({ agents: [], tasks: [history, summary, story] }).kickoff()).rejects.toThrow('Historian is unavailable');
+    // The journalist was already running and finished; the storyteller never started
+    expect(provider.events).toEqual(['start Historian', 'start Journalist', 'end Historian', 'end Journalist']);
+  });
+});
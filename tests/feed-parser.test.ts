@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { parseFeed } from '../src/lib/feed-parser';
+
+const rss = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>World News</title>
+    <link>https://news.example.com/</link>
+    <item>
+      <title> Senate passes stopgap funding bill </title>
+      <link>https://news.example.com/politics/stopgap</link>
+      <description><![CDATA[<p>The bill keeps the government open <b>until December</b>.</p>]]></description>
+      <dc:creator>Jane Doe</dc:creator>
+      <pubDate>Sat, 18 Oct 2026 20:00:00 GMT</pubDate>
+      <enclosure url="https://news.example.com/audio.mp3" type="audio/mpeg" length="1" />
+      <media:content url="https://news.example.com/video.mp4" medium="video" />
+      <media:thumbnail url="https://news.example.com/stopgap.jpg" />
+    </item>
+    <item>
+      <title>Storm reaches the coast</title>
+      <guid isPermaLink="true">https://news.example.com/weather/storm</guid>
+      <author>desk@example.com (Weather Desk)</author>
+      <dc:date>2026-10-18T08:30:00+02:00</dc:date>
+      <enclosure url="https://news.example.com/storm.jpg" type="image/jpeg" length="1" />
+    </item>
+    <item>
+      <title>Undated story</title>
+      <guid isPermaLink="false">story-123</guid>
+      <pubDate>sometime last week</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+const atom = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">
+  <title>Tech Feed</title>
+  <link href="https://tech.example.com/" />
+  <entry>
+    <title>New chip announced</title>
+    <link rel="enclosure" href="https://tech.example.com/chip.png" type="image/png" />
+    <link rel="alternate" href="https://tech.example.com/chip" />
+    <author><name>John Smith</name></author>
+    <updated>2026-10-18T12:00:00Z</updated>
+    <published>2026-10-18T09:00:00Z</published>
+    <summary type="html">&lt;p&gt;Faster &amp;amp; smaller.&lt;/p&gt;</summary>
+  </entry>
+  <entry>
+    <title>Update released</title>
+    <link href="https://tech.example.com/update" />
+    <updated>2026-10-17T12:00:00Z</updated>
+    <content type="html">Now with fewer bugs.</content>
+    <media:thumbnail url="https://tech.example.com/update.jpg" />
+  </entry>
+</feed>`;
+
+describe('parseFeed', () => {
+  it('parses RSS items, preferring image enclosures and Media RSS images', () => {
+    const feed = parseFeed(rss);
+
+    expect(feed.format).toBe('rss');
+    expect(feed.title).toBe('World News');
+    expect(feed.items).toEqual([
+      {
+        title: 'Senate passes stopgap funding bill',
+        link: 'https://news.example.com/politics/stopgap',
+        summary: 'The bill keeps the government open until December.',
+        author: 'Jane Doe',
+        imageUrl: 'https://news.example.com/stopgap.jpg',
+        publishedAt: '2026-10-18T20:00:00.000Z'
+      },
+      {
+        title: 'Storm reaches the coast',
+        link: 'https://news.example.com/weather/storm',
+        summary: '',
+        author: 'desk@example.com (Weather Desk)',
+        imageUrl: 'https://news.example.com/storm.jpg',
+        publishedAt: '2026-10-18T06:30:00.000Z'
+      },
+      {
+        title: 'Undated story',
+        link: '',
+        summary: '',
+        author: '',
+        imageUrl: '',
+        publishedAt: null
+      }
+    ]);
+  });
+
+  it('parses Atom entries, using the alternate link and published date', () => {
+    const feed = parseFeed(atom);
+
+    expect(feed.format).toBe('atom');
+    expect(feed.title).toBe('Tech Feed');
+    expect(feed.items).toEqual([
+      {
+        title: 'New chip announced',
+        link: 'https://tech.example.com/chip',
+        summary: 'Faster & smaller.',
+        author: 'John Smith',
+        imageUrl: 'https://tech.example.com/chip.png',
+        publishedAt: '2026-10-18T09:00:00.000Z'
+      },
+      {
+        title: 'Update released',
+        link: 'https://tech.example.com/update',
+        summary: 'Now with fewer bugs.',
+        author: '',
+        imageUrl: 'https://tech.example.com/update.jpg',
+        publishedAt: '2026-10-17T12:00:00.000Z'
+      }
+    ]);
+  });
+
+  it('shortens long descriptions to a teaser', () => {
+    const description = 'story '.repeat(100);
+    const feed = parseFeed(`<rss><channel><item><title>Long</title><description>${description}</description></item></channel></rss>`);
+
+    expect(feed.items[0].summary).toHaveLength(403);
+    expect(feed.items[0].summary.endsWith('...')).toBe(true);
+  });
+
+  it('rejects documents that are not feeds', () => {
+    expect(() => parseFeed('<html><body><p>Not a feed</p></body></html>')).toThrow('Document is not an RSS or Atom feed');
+  });
+});
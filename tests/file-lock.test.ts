@@ -0,0 +1,117 @@
+import fs from 'fs';
+import fsExtra from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { acquireLock, readLock, waitForLockRelease, type LockInfo } from '../src/lib/file-lock';
+
+function writeExpiredLock(file: string): void {
+  const expired: LockInfo = {
+    token: 'crashed-holder',
+    pid: 999999,
+    host: 'elsewhere',
+    acquiredAt: new Date(Date.now() - 120000).toISOString(),
+    expiresAt: new Date(Date.now() - 60000).toISOString()
+  };
+  fs.writeFileSync(file, JSON.stringify(expired));
+}
+
+describe('file-lock', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-lock-'));
+    file = path.join(dir, 'refresh.lock');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lets one holder in at a time and frees the lock on release', async () => {
+    const first = await acquireLock(file, 60000);
+    expect(first).not.toBeNull();
+    expect(await acquireLock(file, 60000)).toBeNull();
+    expect((await readLock(file))?.token).toBe(first!.info.token);
+
+    await first!.release();
+    expect(await readLock(file)).toBeNull();
+
+    const second = await acquireLock(file, 60000);
+    expect(second).not.toBeNull();
+    await second!.release();
+  });
+
+  it('takes over an expired lock', async () => {
+    writeExpiredLock(file);
+
+    const lock = await acquireLock(file, 60000);
+    expect(lock).not.toBeNull();
+    expect((await readLock(file))?.token).toBe(lock!.info.token);
+    await lock!.release();
+  });
+
+  it('gives an expired lock to exactly one of several racing acquirers', async () => {
+    for (let round = 0; round < 20; round++) {
+      writeExpiredLock(file);
+
+      const locks = await Promise.all(Array.from({ length: 4 }, () => acquireLock(file, 60000)));
+      const winners = locks.filter(lock => lock !== null);
+
+      expect(winners).toHaveLength(1);
+      expect((await readLock(file))?.token).toBe(winners[0]!.info.token);
+      // Nothing moved aside during the takeover is left behind
+      expect(fs.readdirSync(dir)).toEqual(['refresh.lock']);
+      await winners[0]!.release();
+    }
+  });
+
+  it('leaves the lock alone when another acquirer takes it over first', async () => {
+    writeExpiredLock(file);
+
+    // Hold the slow acquirer's read of the expired lock until the fast one has taken it over
+    let releaseRead!: () => void;
+    const readHeld = new Promise<void>(resolve => { releaseRead = resolve; });
+    const readFile = fsExtra.readFile.bind(fsExtra) as (path: string, encoding: string) => Promise<string>;
+    const spy = vi.spyOn(fsExtra, 'readFile').mockImplementationOnce((async (target: string, encoding: string) => {
+      const raw = await readFile(target, encoding);
+      await readHeld;
+      return raw;
+    }) as unknown as typeof fsExtra.readFile);
+
+    const slow = acquireLock(file, 60000);
+    await vi.waitFor(() => expect(spy).toHaveBeenCalled());
+    const fast = await acquireLock(file, 60000);
+    releaseRead();
+
+    expect(fast).not.toBeNull();
+    expect(await slow).toBeNull();
+    expect((await readLock(file))?.token).toBe(fast!.info.token);
+    expect(fs.readdirSync(dir)).toEqual(['refresh.lock']);
+    await fast!.release();
+  });
+
+  it('does not remove a lock that has been taken over since it expired', async () => {
+    const stale = await acquireLock(file, 60000);
+    writeExpiredLock(file);
+    const current = await acquireLock(file, 60000);
+
+    await stale!.release();
+    expect((await readLock(file))?.token).toBe(current!.info.token);
+    await current!.release();
+  });
+
+  it('waits for the holder to release', async () => {
+    const lock = await acquireLock(file, 60000);
+    expect(await waitForLockRelease(file, { timeoutMs: 50, pollMs: 10 })).toBe(false);
+
+    const released = new Promise<void>((resolve, reject) => {
+      setTimeout(() => lock!.release().then(resolve, reject), 20);
+    });
+    expect(await waitForLockRelease(file, { timeoutMs: 1000, pollMs: 10 })).toBe(true);
+    await released;
+  });
+});
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import path from 'path';
+import { HttpError, type FetchOptions, type FetchResult, type TextFetcher } from '../../src/lib/http-fetcher';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+/**
+ * ABC News listing pages, as requested by ABCNewsScraper.getListingPages()
+ */
+export const abcListingRoutes: Record<string, string> = {
+  'https://abcnews.go.com': 'abc/home.html',
+  'https://abcnews.go.com/us': 'abc/us.html',
+  'https://abcnews.go.com/international': 'abc/international.html',
+  'https://abcnews.go.com/politics': 'abc/politics.html',
+  'https://abcnews.go.com/business': 'abc/business.html',
+  'https://abcnews.go.com/technology': 'abc/technology.html',
+  'https://abcnews.go.com/sports': 'abc/sports.html',
+  'https://abcnews.go.com/entertainment': 'abc/entertainment.html',
+  'https://abcnews.go.com/health': 'abc/health.html'
+};
+
+/**
+ * Article pages in different layouts
+ */
+export const articleRoutes: Record<string, string> = {
+  'https://abcnews.go.com/politics/senate-passes-stopgap-funding-bill/story?id=126010960': 'articles/abc-story.html',
+  'https://news.example.org/features/power-grid': 'articles/paginated-page-1.html',
+  'https://news.example.org/features/power-grid?page=2': 'articles/paginated-page-2.html',
+  'https://blog.example.net/2026/10/small-town-library': 'articles/blog-readability.html',
+  'https://news.example.org/local/bus-lanes': 'articles/next-story.html',
+  'https://tech.example.com/policy/cookie-banners': 'articles/cookie-law.html',
+  // Other stories linked from next-story.html, never fetched by a correct scraper
+  'https://news.example.org/local/weather-warning': 'articles/abc-story.html',
+  'https://news.example.org/local/library-hours': 'articles/blog-readability.html'
+};
+
+/**
+ * TextFetcher that serves saved pages from tests/fixtures by URL. Unknown URLs
+ * answer 404, so tests never reach the network.
+ */
+export class FixtureFetcher implements TextFetcher {
+  /** Every URL requested, in order */
+  readonly requests: string[] = [];
+
+  constructor(private routes: Record<string, string>) {}
+
+  async fetchText(url: string, _options: FetchOptions = {}): Promise<FetchResult> {
+    this.requests.push(url);
+
+    const fixture = this.routes[url];
+    if (!fixture) {
+      throw new HttpError(url, 404);
+    }
+    return { url, status: 200, body: readFixture(fixture), notModified: false, attempts: 1 };
+  }
+}
+
+export function readFixture(fixture: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, fixture), 'utf8');
+}
+
+/**
+ * Stable JSON for golden files
+ */
+export function toGolden(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
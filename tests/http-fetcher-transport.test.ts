@@ -0,0 +1,296 @@
+import axios, { type AxiosRequestConfig } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import HttpFetcher, { RobotsDisallowedError } from '../src/lib/http-fetcher';
+
+// A scripted transport instead of the network, so timing can run on a fake clock
+vi.mock('axios', () => ({ default: { get: vi.fn() } }));
+
+interface Reply {
+  status: number;
+  data?: string;
+  headers?: Record<string, string>;
+}
+
+interface SentRequest {
+  url: string;
+  at: number;
+  headers: Record<string, string>;
+}
+
+const START = Date.parse('2026-10-19T06:00:00.000Z');
+const ORIGIN = 'https://news.example.com';
+
+describe('HttpFetcher robots.txt', () => {
+  let requests: SentRequest[];
+  let robotsReply: Reply;
+
+  /**
+   * Answer robots.txt with robotsReply and every other URL with 200
+   */
+  function useTransport(): void {
+    vi.mocked(axios.get).mockImplementation((async (url: string, config?: AxiosRequestConfig) => {
+      requests.push({ url, at: Date.now(), headers: (config?.headers || {}) as Record<string, string> });
+      return url.endsWith('/robots.txt')
+        ? { data: '', headers: {}, ...robotsReply }
+        : { status: 200, data: `<p>${url}</p>`, headers: {} };
+    }) as typeof axios.get);
+  }
+
+  const robotsRequests = () => requests.filter(request => request.url.endsWith('/robots.txt')).length;
+  const pageRequests = () => requests.filter(request => !request.url.endsWith('/robots.txt')).map(request => request.url);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: START });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    requests = [];
+    robotsReply = { status: 200, data: 'User-agent: *\nDisallow: /private' };
+    useTransport();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('refuses disallowed paths without requesting them', async () => {
+    const fetcher = new HttpFetcher({ hostSpacingMs: 0 });
+
+    await expect(fetcher.fetchText(`${ORIGIN}/private/report`)).rejects.toBeInstanceOf(RobotsDisallowedError);
+    await expect(fetcher.fetchText(`${ORIGIN}/private/report`)).rejects.toThrow(
+      `Blocked by robots.txt: ${ORIGIN}/private/report is disallowed for NewsStorytellerBot`
+    );
+    expect((await fetcher.fetchText(`${ORIGIN}/news`)).status).toBe(200);
+
+    expect(pageRequests()).toEqual([`${ORIGIN}/news`]);
+    expect(await fetcher.isAllowed(`${ORIGIN}/private`)).toBe(false);
+  });
+
+  it('caches robots.txt per origin until its TTL runs out', async () => {
+    const fetcher = new HttpFetcher({ hostSpacingMs: 0, robotsTtlMs: 60 * 60 * 1000 });
+
+    await Promise.all([fetcher.fetchText(`${ORIGIN}/a`), fetcher.fetchText(`${ORIGIN}/b`)]);
+    await fetcher.fetchText(`${ORIGIN}/c`);
+    expect(robotsRequests()).toBe(1);
+
+    await fetcher.fetchText('https://other.example.com/a');
+    expect(robotsRequests()).toBe(2);
+
+    vi.setSystemTime(START + 60 * 60 * 1000 + 1);
+    await fetcher.fetchText(`${ORIGIN}/d`);
+    expect(robotsRequests()).toBe(3);
+  });
+
+  it('allows everything when robots.txt is missing', async () => {
+    robotsReply = { status: 404, data: 'Not found' };
+    const fetcher = new HttpFetcher({ hostSpacingMs: 0 });
+
+    expect((await fetcher.fetchText(`${ORIGIN}/private/report`)).status).toBe(200);
+  });
+
+  it('treats a failing robots.txt as disallow-all and checks again after ten minutes', async () => {
+    robotsReply = { status: 503 };
+    const fetcher = new HttpFetcher({ hostSpacingMs: 0 });
+
+    await expect(fetcher.fetchText(`${ORIGIN}/news`)).rejects.toBeInstanceOf(RobotsDisallowedError);
+    await expect(fetcher.fetchText(`${ORIGIN}/news`)).rejects.toBeInstanceOf(RobotsDisallowedError);
+    expect(robotsRequests()).toBe(1);
+    expect(pageRequests()).toEqual([]);
+
+    robotsReply = { status: 200, data: 'User-agent: *\nAllow: /' };
+    vi.setSystemTime(START + 10 * 60 * 1000 + 1);
+    expect((await fetcher.fetchText(`${ORIGIN}/news`)).status).toBe(200);
+    expect(robotsRequests()).toBe(2);
+  });
+
+  it('treats an unreachable robots.txt as disallow-all', async () => {
+    vi.mocked(axios.get).mockRejectedValueOnce(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }));
+    const fetcher = new HttpFetcher({ hostSpacingMs: 0 });
+
+    await expect(fetcher.fetchText(`${ORIGIN}/news`)).rejects.toBeInstanceOf(RobotsDisallowedError);
+  });
+
+  it('spaces requests by the crawl delay, capped at 30 seconds', async () => {
+    robotsReply = { status: 200, data: 'User-agent: *\nCrawl-delay: 86400' };
+    const fetcher = new HttpFetcher({ hostSpacingMs: 0 });
+
+    const first = fetcher.fetchText(`${ORIGIN}/a`);
+    const second = fetcher.fetchText(`${ORIGIN}/b`);
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    await Promise.all([first, second]);
+
+    const [a, b] = requests.filter(request => !request.url.endsWith('/robots.txt'));
+    expect(b.at - a.at).toBe(30 * 1000);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('asks for a 86400s crawl delay, using 30s'));
+  });
+});
+
+describe('HttpFetcher request policy', () => {
+  let requests: SentRequest[];
+  let inFlight: number;
+  let maxInFlight: number;
+  let script: Record<string, Array<Reply | Error>>;
+
+  /**
+   * Answer each URL with its scripted replies in order (the last one repeats),
+   * each taking responseMs of fake time
+   */
+  function useTransport(responseMs = 0): void {
+    vi.mocked(axios.get).mockImplementation((async (url: string, config?: AxiosRequestConfig) => {
+      requests.push({ url, at: Date.now(), headers: (config?.headers || {}) as Record<string, string> });
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      try {
+        if (responseMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, responseMs));
+        }
+        const replies = script[url] || [{ status: 200, data: 'ok' }];
+        const reply = replies.length > 1 ? replies.shift()! : replies[0];
+        if (reply instanceof Error) throw reply;
+        return { data: '', headers: {}, ...reply };
+      } finally {
+        inFlight--;
+      }
+    }) as typeof axios.get);
+  }
+
+  const startTimes = (url: string) => requests.filter(request => request.url === url).map(request => request.at - START);
+  const networkError = (code: string) => Object.assign(new Error(`read ${code}`), { code });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: START });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    // No jitter: every backoff is half the exponential delay
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    requests = [];
+    inFlight = 0;
+    maxInFlight = 0;
+    script = {};
+    useTransport();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps at most maxConcurrency requests in flight across hosts', async () => {
+    useTransport(1000);
+    const fetcher = new HttpFetcher({ respectRobots: false, maxConcurrency: 2, hostSpacingMs: 0 });
+
+    const all = Promise.all([1, 2, 3, 4, 5].map(n => fetcher.fetchText(`https://host${n}.example.com/`)));
+    await vi.advanceTimersByTimeAsync(3000);
+    await all;
+
+    expect(maxInFlight).toBe(2);
+    expect(requests.map(request => request.at - START)).toEqual([0, 0, 1000, 1000, 2000]);
+    expect(fetcher.getStats().requests).toBe(5);
+  });
+
+  it('spaces request starts to the same host, not across hosts', async () => {
+    const fetcher = new HttpFetcher({ respectRobots: false, hostSpacingMs: 1000 });
+
+    const all = Promise.all([
+      fetcher.fetchText(`${ORIGIN}/a`),
+      fetcher.fetchText(`${ORIGIN}/b`),
+      fetcher.fetchText(`${ORIGIN}/c`),
+      fetcher.fetchText('https://other.example.com/a')
+    ]);
+    await vi.advanceTimersByTimeAsync(2000);
+    await all;
+
+    expect([`${ORIGIN}/a`, `${ORIGIN}/b`, `${ORIGIN}/c`].flatMap(startTimes)).toEqual([0, 1000, 2000]);
+    expect(startTimes('https://other.example.com/a')).toEqual([0]);
+  });
+
+  it('retries 5xx and network errors with exponential backoff', async () => {
+    const url = `${ORIGIN}/flaky`;
+    script[url] = [{ status: 503 }, networkError('ECONNRESET'), { status: 502 }, { status: 200, data: 'finally' }];
+    const fetcher = new HttpFetcher({ respectRobots: false, hostSpacingMs: 0, baseRetryDelayMs: 500 });
+
+    const result = fetcher.fetchText(url);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(await result).toMatchObject({ status: 200, body: 'finally', attempts: 4 });
+    // Half of 500, 1000 and 2000ms with no jitter
+    expect(startTimes(url)).toEqual([0, 250, 750, 1750]);
+    expect(fetcher.getStats()).toMatchObject({ retries: 3, failures: 0 });
+  });
+
+  it('gives up after maxRetries and never retries other 4xx or unknown errors', async () => {
+    script[`${ORIGIN}/down`] = [{ status: 500 }];
+    script[`${ORIGIN}/gone`] = [{ status: 404 }];
+    script[`${ORIGIN}/broken`] = [new Error('socket hang up')];
+    const fetcher = new HttpFetcher({ respectRobots: false, hostSpacingMs: 0, maxRetries: 2, baseRetryDelayMs: 100 });
+
+    const down = fetcher.fetchText(`${ORIGIN}/down`).catch(error => error);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await down).toMatchObject({ name: 'HttpError', status: 500, message: `HTTP 500 for ${ORIGIN}/down after 3 attempts` });
+    expect(startTimes(`${ORIGIN}/down`)).toHaveLength(3);
+
+    await expect(fetcher.fetchText(`${ORIGIN}/gone`)).rejects.toMatchObject({ name: 'HttpError', status: 404 });
+    await expect(fetcher.fetchText(`${ORIGIN}/broken`)).rejects.toThrow('socket hang up');
+    expect(startTimes(`${ORIGIN}/gone`)).toHaveLength(1);
+    expect(startTimes(`${ORIGIN}/broken`)).toHaveLength(1);
+  });
+
+  it('waits as long as Retry-After asks, holding back the whole host', async () => {
+    const url = `${ORIGIN}/busy`;
+    script[url] = [{ status: 429, headers: { 'retry-after': '5' } }, { status: 200, data: 'ok' }];
+    const fetcher = new HttpFetcher({ respectRobots: false, hostSpacingMs: 0 });
+
+    const busy = fetcher.fetchText(url);
+    await vi.advanceTimersByTimeAsync(1000);
+    const other = fetcher.fetchText(`${ORIGIN}/other`);
+    await vi.advanceTimersByTimeAsync(5000);
+    await Promise.all([busy, other]);
+
+    expect(startTimes(url)).toEqual([0, 5000]);
+    expect(startTimes(`${ORIGIN}/other`)[0]).toBeGreaterThanOrEqual(5000);
+  });
+
+  it('reads Retry-After dates and caps long waits at maxRetryDelayMs', async () => {
+    const dated = `${ORIGIN}/dated`;
+    const capped = `${ORIGIN}/capped`;
+    script[dated] = [{ status: 503, headers: { 'retry-after': new Date(START + 3000).toUTCString() } }, { status: 200 }];
+    script[capped] = [{ status: 503, headers: { 'retry-after': '3600' } }, { status: 200 }];
+    const fetcher = new HttpFetcher({ respectRobots: false, hostSpacingMs: 0, maxRetryDelayMs: 10000 });
+
+    const first = fetcher.fetchText(dated);
+    await vi.advanceTimersByTimeAsync(3000);
+    await first;
+    expect(startTimes(dated)).toEqual([0, 3000]);
+
+    const second = fetcher.fetchText(capped);
+    await vi.advanceTimersByTimeAsync(10000);
+    await second;
+    expect(startTimes(capped)).toEqual([3000, 13000]);
+  });
+
+  it('revalidates with ETag and Last-Modified and serves 304s from the stored body', async () => {
+    const url = `${ORIGIN}/listing`;
+    script[url] = [
+      { status: 200, data: '<p>first</p>', headers: { etag: '"v1"', 'last-modified': 'Sun, 18 Oct 2026 06:00:00 GMT' } },
+      { status: 304 }
+    ];
+    const fetcher = new HttpFetcher({ respectRobots: false, hostSpacingMs: 0 });
+
+    expect(await fetcher.fetchText(url, { conditional: true })).toMatchObject({ body: '<p>first</p>', notModified: false });
+    expect(await fetcher.fetchText(url, { conditional: true })).toMatchObject({ status: 304, body: '<p>first</p>', notModified: true });
+
+    const [first, second] = requests;
+    expect(first.headers).not.toHaveProperty('If-None-Match');
+    expect(second.headers).toMatchObject({ 'If-None-Match': '"v1"', 'If-Modified-Since': 'Sun, 18 Oct 2026 06:00:00 GMT' });
+    expect(fetcher.getStats().notModified).toBe(1);
+  });
+
+  it('sends no validators for requests that are not conditional', async () => {
+    const url = `${ORIGIN}/article`;
+    script[url] = [{ status: 200, data: 'body', headers: { etag: '"v1"' } }];
+    const fetcher = new HttpFetcher({ respectRobots: false, hostSpacingMs: 0 });
+
+    await fetcher.fetchText(url, { conditional: true });
+    await fetcher.fetchText(url);
+
+    expect(requests[1].headers).not.toHaveProperty('If-None-Match');
+  });
+});
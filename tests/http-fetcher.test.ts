@@ -0,0 +1,68 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import HttpFetcher from '../src/lib/http-fetcher';
+import { UnsafeUrlError } from '../src/lib/url-guard';
+
+// The local test server stands in for a public news site: only the up-front check of
+// the first URL is stubbed, the redirect hook and its error handling are the real ones
+vi.mock('../src/lib/url-guard', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/lib/url-guard')>(),
+  assertPublicUrl: vi.fn(async (url: string) => new URL(url))
+}));
+
+describe('HttpFetcher redirects', () => {
+  let server: http.Server;
+  let origin: string;
+  let hits: string[];
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    hits = [];
+    server = http.createServer((request, response) => {
+      hits.push(request.url || '');
+      const port = (server.address() as AddressInfo).port;
+      if (request.url === '/to-private') {
+        response.writeHead(302, { Location: `http://127.0.0.1:${port}/admin` });
+      } else if (request.url === '/to-elsewhere') {
+        response.writeHead(302, { Location: `http://localhost:${port}/story` });
+      } else {
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.write('<p>ok</p>');
+      }
+      response.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const fetcher = () => new HttpFetcher({ respectRobots: false, hostSpacingMs: 0, maxRetries: 2, baseRetryDelayMs: 1 });
+
+  it('refuses a redirect from a public URL to a private address, without retrying', async () => {
+    const error = await fetcher().fetchText(`${origin}/to-private`, { publicOnly: true }).catch(e => e);
+
+    expect(error).toBeInstanceOf(UnsafeUrlError);
+    expect(error.message).toContain('redirect to a private or reserved address');
+    expect(hits).toEqual(['/to-private']);
+  });
+
+  it('refuses a redirect off the allowed domains', async () => {
+    const error = await fetcher()
+      .fetchText(`${origin}/to-elsewhere`, { publicOnly: true, allowedDomains: ['127.0.0.1'] })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(UnsafeUrlError);
+    expect(error.message).toContain('redirect to localhost, which is not an allowed news domain');
+    expect(hits).toEqual(['/to-elsewhere']);
+  });
+
+  it('fetches allowed URLs as usual', async () => {
+    const result = await fetcher().fetchText(`${origin}/story`, { publicOnly: true, allowedDomains: ['127.0.0.1'] });
+    expect(result).toMatchObject({ status: 200, body: '<p>ok</p>', attempts: 1 });
+  });
+});
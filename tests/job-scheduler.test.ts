@@ -0,0 +1,101 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import JobScheduler, { type JobConfig } from '../src/lib/job-scheduler';
+
+describe('JobScheduler', () => {
+  let dir: string;
+  let configFile: string;
+  let stateFile: string;
+  let runner: ReturnType<typeof vi.fn>;
+  let scheduler: JobScheduler;
+
+  const writeConfig = (jobs: unknown) => fs.writeFileSync(configFile, JSON.stringify({ jobs }));
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+    configFile = path.join(dir, 'news-jobs.json');
+    stateFile = path.join(dir, 'job-state.json');
+    runner = vi.fn(async () => ({ articles: 12 }));
+    scheduler = new JobScheduler(runner, { configFile, stateFile });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('schedules enabled jobs and reports invalid ones without scheduling them', () => {
+    writeConfig([
+      { id: 'morning', cron: '0 6 * * *', timezone: 'Asia/Kolkata' },
+      { id: 'politics', cron: '*/30 * * * *', sources: ['abc-politics'], enabled: false },
+      { id: 'broken', cron: 'every morning' }
+    ]);
+    scheduler.start();
+
+    expect(scheduler.list().map(({ id, isScheduled, configError }) => ({ id, isScheduled, configError }))).toEqual([
+      { id: 'morning', isScheduled: true, configError: undefined },
+      { id: 'politics', isScheduled: false, configError: undefined },
+      { id: 'broken', isScheduled: false, configError: 'Invalid cron expression "every morning"' }
+    ]);
+  });
+
+  it('falls back to the default morning refresh without a config file', () => {
+    scheduler.start();
+    expect(scheduler.list().map(job => job.id)).toEqual(['morning-refresh']);
+  });
+
+  it('keeps the current schedule when a reloaded config is malformed or invalid', () => {
+    writeConfig([{ id: 'morning', cron: '0 6 * * *' }]);
+    scheduler.start();
+
+    fs.writeFileSync(configFile, '{ "jobs": [');
+    expect(() => scheduler.reload()).toThrow();
+    writeConfig([{ id: 'a', cron: '0 6 * * *' }, { id: 'a', cron: '0 7 * * *' }]);
+    expect(() => scheduler.reload()).toThrow('Duplicate job id "a"');
+    writeConfig([{ cron: '0 6 * * *' }]);
+    expect(() => scheduler.reload()).toThrow('needs a string "id" and "cron"');
+
+    expect(scheduler.list().map(({ id, isScheduled }) => ({ id, isScheduled }))).toEqual([{ id: 'morning', isScheduled: true }]);
+
+    writeConfig([{ id: 'evening', cron: '0 18 * * *' }]);
+    expect(scheduler.reload().map(({ id, isScheduled }) => ({ id, isScheduled }))).toEqual([{ id: 'evening', isScheduled: true }]);
+  });
+
+  it('records manual runs, including failures, and persists them with pauses', async () => {
+    const job: JobConfig = { id: 'morning', cron: '0 6 * * *', sources: ['abc-politics'], enabled: true };
+    writeConfig([job]);
+    scheduler.start();
+
+    expect(await scheduler.trigger('morning')).toMatchObject({ jobId: 'morning', trigger: 'manual', status: 'success', articles: 12 });
+    expect(runner).toHaveBeenCalledWith(job);
+
+    runner.mockRejectedValueOnce(new Error('source down'));
+    expect(await scheduler.trigger('morning')).toMatchObject({ status: 'failure', error: 'source down' });
+
+    const paused = await scheduler.pause('morning');
+    expect(paused).toMatchObject({ paused: true, isScheduled: false });
+    scheduler.stop();
+
+    // A new scheduler picks up the history and the pause from the state file
+    const restarted = new JobScheduler(runner, { configFile, stateFile });
+    restarted.start();
+    const [status] = restarted.list();
+    expect(status).toMatchObject({ paused: true, isScheduled: false });
+    expect(status.lastSuccess?.articles).toBe(12);
+    expect(status.lastFailure?.error).toBe('source down');
+    expect(restarted.getHistory('morning').map(run => run.status)).toEqual(['failure', 'success']);
+
+    expect(await restarted.resume('morning')).toMatchObject({ paused: false, isScheduled: true });
+    restarted.stop();
+  });
+
+  it('refuses unknown jobs', async () => {
+    scheduler.start();
+    await expect(scheduler.trigger('nope')).rejects.toThrow('Unknown job: nope');
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { initializeCrew } from '../src/lib/ai-agents';
+import { scrapeArticle } from '../src/lib/article-scraper';
+import { AnthropicProvider, ScriptedProvider, createLLMProvider } from '../src/lib/llm-provider';
+import { FixtureFetcher, articleRoutes } from './helpers/fixture-fetcher';
+
+const ARTICLE_URL = 'https://abcnews.go.com/politics/senate-passes-stopgap-funding-bill/story?id=126010960';
+
+function scriptedNarrator() {
+  return new ScriptedProvider([
+    { match: 'expert historian', reply: 'HISTORY: Stopgap bills have kept the government open since the 1970s.' },
+    { match: 'objective journalist', reply: 'SUMMARY: The Senate passed a short-term funding bill.' },
+    { match: 'You are Roald Dahl', reply: 'Once upon a time, the grown-ups in a big marble building had to agree on the money.' }
+  ]);
+}
+
+describe('narrator pipeline', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('runs the whole crew offline on a scripted provider', async () => {
+    const article = await scrapeArticle(ARTICLE_URL, { fetcher: new FixtureFetcher(articleRoutes) });
+    const provider = scriptedNarrator();
+
+    const { crew } = initializeCrew(ARTICLE_URL, article.content, article.title, article, { provider });
+    const { finalOutput, tasks } = await crew.kickoff();
+
+    expect(finalOutput).toBe('Once upon a time, the grown-ups in a big marble building had to agree on the money.');
+    expect(tasks.map(({ name, output }) => ({ name, output: output.slice(0, 8) }))).toEqual([
+      { name: 'history', output: 'HISTORY:' },
+      { name: 'summary', output: 'SUMMARY:' },
+      { name: 'story', output: 'Once upo' }
+    ]);
+    expect(provider.calls).toHaveLength(3);
+    expect(provider.calls[0].messages[1].content).toContain(article.title);
+
+    // The storyteller sees the historian's and the journalist's work
+    const storytellerPrompt = provider.calls[2].messages[0].content;
+    expect(storytellerPrompt).toContain('HISTORY: Stopgap bills');
+    expect(storytellerPrompt).toContain('SUMMARY: The Senate passed');
+  });
+
+  it('sends each agent its own model settings', async () => {
+    const provider = scriptedNarrator();
+    const { crew } = initializeCrew(ARTICLE_URL, 'The Senate voted on Friday.', 'Senate vote', undefined, {
+      provider,
+      agents: {
+        history: { model: 'small-model', temperature: 0 },
+        storyteller: { model: 'creative-model', maxTokens: 800, temperature: 0.9 }
+      }
+    });
+    await crew.kickoff();
+
+    expect(provider.calls.map(({ model, maxTokens, temperature }) => ({ model, maxTokens, temperature }))).toEqual([
+      { model: 'small-model', maxTokens: 2000, temperature: 0 },
+      { model: undefined, maxTokens: 2000, temperature: undefined },
+      { model: 'creative-model', maxTokens: 800, temperature: 0.9 }
+    ]);
+  });
+
+  it('replays queued replies in order, then falls back to a fixed answer', async () => {
+    const provider = new ScriptedProvider(['first', 'second']);
+    const ask = (content: string) => provider.complete({ messages: [{ role: 'user', content }] });
+
+    expect((await ask('a')).content).toBe('first');
+    expect((await ask('b')).content).toBe('second');
+    expect((await ask('Tell me a story\nplease')).content).toBe('Scripted reply #3 to: Tell me a story');
+  });
+
+  it('picks the provider named by LLM_PROVIDER', () => {
+    expect(createLLMProvider('mock').name).toBe('mock');
+    expect(createLLMProvider('Ollama').name).toBe('ollama');
+    expect(() => createLLMProvider('gemini')).toThrow('Unknown LLM provider "gemini"');
+  });
+
+  it('moves system prompts into the Anthropic system field', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      model: 'claude-test',
+      content: [{ type: 'text', text: 'Hello' }],
+      usage: { input_tokens: 12, output_tokens: 3 }
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new AnthropicProvider({ apiKey: 'test-key', baseURL: 'https://api.anthropic.com', defaultModel: 'claude-test' });
+    const response = await provider.complete({
+      maxTokens: 100,
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' }
+      ]
+    });
+
+    expect(response).toEqual({ content: 'Hello', model: 'claude-test', usage: { inputTokens: 12, outputTokens: 3 } });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'claude-test',
+      max_tokens: 100,
+      system: 'Be brief.',
+      messages: [{ role: 'user', content: 'Hi' }]
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileCacheStorage } from '../src/lib/cache-storage';
+import ArticleContentStore from '../src/lib/content-store';
+import { ScriptedProvider } from '../src/lib/llm-provider';
+import NarratorService, { NarrationError, type NarrationEvent } from '../src/lib/narrator-service';
+import { FixtureFetcher } from './helpers/fixture-fetcher';
+
+// An IP literal passes the public-address check without a DNS lookup
+const ARTICLE_URL = 'http://93.184.216.34/politics/stopgap-funding-bill';
+
+describe('NarratorService', () => {
+  let cacheDir: string;
+  let provider: ScriptedProvider;
+  let narrator: NarratorService;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'narrator-'));
+    provider = new ScriptedProvider([
+      { match: 'expert historian', reply: 'Some history.' },
+      { match: 'objective journalist', reply: 'A summary.' },
+      { match: 'You are Roald Dahl', reply: 'Once upon a time,\n\nthe end.' },
+      { match: 'hard-boiled detective', reply: 'The city was quiet. Too quiet.' }
+    ]);
+    narrator = new NarratorService({
+      storage: new FileCacheStorage(cacheDir),
+      contentStore: new ArticleContentStore({ storeDir: path.join(cacheDir, 'articles') }),
+      provider,
+      fetcher: new FixtureFetcher({ [ARTICLE_URL]: 'articles/abc-story.html' })
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('reports each step and streams the story as it is written', async () => {
+    const events: NarrationEvent[] = [];
+    const result = await narrator.narrate(ARTICLE_URL, { onEvent: event => events.push(event) });
+
+    expect(result.narration).toBe('Once upon a time,\n\nthe end.');
+    expect(result.persona.id).toBe('roald-dahl');
+    expect(result.title).toBe("Senate passes stopgap funding bill hours before shutdown deadline - Roald Dahl's Narrative");
+
+    const steps = events.filter(event => event.type !== 'token').map(event => 'task' in event ? `${event.type} ${event.task}` : event.type);
+    expect(steps).toEqual([
+      'status',
+      'article',
+      'task-start history',
+      'task-start summary',
+      'task-complete history',
+      'task-complete summary',
+      'task-start story',
+      'task-complete story'
+    ]);
+
+    // Only the storyteller's answer is streamed, a word at a time
+    const tokens = events.flatMap(event => event.type === 'token' ? [event] : []);
+    expect(new Set(tokens.map(token => token.task))).toEqual(new Set(['story']));
+    expect(tokens.map(token => token.text)).toEqual(['Once ', 'upon ', 'a ', 'time,\n\n', 'the ', 'end.']);
+  });
+
+  it('answers repeat requests from the cache without running the agents', async () => {
+    await narrator.narrate(ARTICLE_URL);
+    const events: NarrationEvent[] = [];
+    const cached = await narrator.narrate(ARTICLE_URL, { onEvent: event => events.push(event) });
+
+    expect(cached.cached).toBe(true);
+    expect(cached.narration).toBe('Once upon a time,\n\nthe end.');
+    expect(provider.calls).toHaveLength(3);
+    expect(events).toEqual([]);
+  });
+
+  it('narrates in the requested persona and caches each persona separately', async () => {
+    await narrator.narrate(ARTICLE_URL);
+    const noir = await narrator.narrate(ARTICLE_URL, { persona: 'noir-detective' });
+
+    expect(noir.cached).toBeUndefined();
+    expect(noir.narration).toBe('The city was quiet. Too quiet.');
+    expect(noir.title).toBe('Senate passes stopgap funding bill hours before shutdown deadline - The Case File');
+    expect(provider.calls).toHaveLength(6);
+
+    // The persona's voice and style rules reach the storyteller, after the shared accuracy rules
+    const storyRequest = provider.calls[provider.calls.length - 1];
+    expect(storyRequest.messages[0].content).toContain('hard-boiled detective');
+    expect(storyRequest.messages[1].content).toContain("1. Stick to the facts from the article");
+    expect(storyRequest.messages[1].content).toContain('say the case is still open');
+    expect(storyRequest.temperature).toBe(0.8);
+
+    // Only the default persona keeps the deprecated roald_dahl_narration field
+    expect(noir).not.toHaveProperty('roald_dahl_narration');
+    expect((await narrator.getCached(ARTICLE_URL))?.roald_dahl_narration).toBe('Once upon a time,\n\nthe end.');
+    expect((await narrator.getCached(ARTICLE_URL, 'noir-detective'))?.narration).toBe('The city was quiet. Too quiet.');
+    expect((await narrator.getCached(ARTICLE_URL))?.narration).toBe('Once upon a time,\n\nthe end.');
+    expect(await narrator.getCached(ARTICLE_URL, 'plain-english')).toBeNull();
+  });
+
+  it('reads narrations cached before personas existed as the default persona', async () => {
+    const storage = new FileCacheStorage(cacheDir);
+    await storage.storeNarration(ARTICLE_URL, { success: true, title: 'Old', roald_dahl_narration: 'An old story.' });
+
+    const cached = await narrator.getCached(ARTICLE_URL);
+    expect(cached).toMatchObject({
+      narration: 'An old story.',
+      roald_dahl_narration: 'An old story.',
+      persona: { id: 'roald-dahl' },
+      cached: true
+    });
+  });
+
+  it('rejects unknown personas with a 400 before doing any work', async () => {
+    await expect(narrator.narrate(ARTICLE_URL, { persona: 'pirate' })).rejects.toMatchObject({
+      status: 400,
+      message: expect.stringContaining('Unknown narrator persona: pirate. Available personas: roald-dahl, dr-seuss')
+    });
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('rejects private links and unreadable articles with a 400', async () => {
+    await expect(narrator.narrate('http://127.0.0.1/admin')).rejects.toMatchObject({ status: 400 });
+    await expect(narrator.narrate('http://93.184.216.34/missing')).rejects.toBeInstanceOf(NarrationError);
+    await expect(narrator.narrate('http://93.184.216.34/missing')).rejects.toMatchObject({
+      status: 400,
+      message: expect.stringContaining('Failed to scrape article content')
+    });
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('runs each agent with its own model settings from the environment', async () => {
+    vi.stubEnv('NARRATOR_HISTORY_MODEL', 'gpt-4o-mini');
+    vi.stubEnv('NARRATOR_SUMMARY_MAX_TOKENS', '800');
+    vi.stubEnv('NARRATOR_STORYTELLER_TEMPERATURE', '0.2');
+    vi.stubEnv('NARRATOR_STORYTELLER_MAX_TOKENS', 'lots');
+    try {
+      narrator = new NarratorService({
+        storage: new FileCacheStorage(cacheDir),
+        contentStore: new ArticleContentStore({ storeDir: path.join(cacheDir, 'articles') }),
+        provider,
+        fetcher: new FixtureFetcher({ [ARTICLE_URL]: 'articles/abc-story.html' })
+      });
+      await narrator.narrate(ARTICLE_URL, { persona: 'noir-detective' });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+
+    const callFor = (role: string) => provider.calls.find(call => call.messages[0].content.includes(role))!;
+    expect(callFor('expert historian')).toMatchObject({ model: 'gpt-4o-mini' });
+    expect(callFor('objective journalist')).toMatchObject({ maxTokens: 800 });
+    expect(callFor('objective journalist').model).toBeUndefined();
+    // Overrides the persona's temperature; an invalid max tokens is ignored
+    const story = callFor('hard-boiled detective');
+    expect(story.temperature).toBe(0.2);
+    expect(story.maxTokens).toBe(2000);
+  });
+});
@@ -0,0 +1,153 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import NewsArchive, { resolveRange } from '../src/lib/news-archive';
+import type { NewsArticle } from '../src/lib/types';
+
+/** Local midnight at the start of a YYYY-MM-DD day */
+function localDay(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime();
+}
+
+function makeArticle(slug: string, publishedAt: string, overrides: Partial<NewsArticle> = {}): NewsArticle {
+  return {
+    id: slug,
+    title: `Story ${slug}`,
+    url: `https://abcnews.go.com/US/${slug}`,
+    category: 'US',
+    publishedAt,
+    scrapedAt: publishedAt,
+    source: 'ABC News',
+    sourceId: 'abc',
+    ...overrides
+  };
+}
+
+describe('resolveRange', () => {
+  it('covers a whole local day for a date', () => {
+    expect(resolveRange({ date: '2026-10-12' })).toEqual({
+      from: localDay('2026-10-12'),
+      to: localDay('2026-10-13') - 1
+    });
+  });
+
+  it('includes the whole end day when to is a bare date', () => {
+    expect(resolveRange({ from: '2026-10-10', to: '2026-10-12' })).toEqual({
+      from: localDay('2026-10-10'),
+      to: localDay('2026-10-13') - 1
+    });
+  });
+
+  it('uses exact instants for timestamps', () => {
+    expect(resolveRange({ from: '2026-10-12T06:00:00Z', to: '2026-10-12T18:00:00Z' })).toEqual({
+      from: Date.parse('2026-10-12T06:00:00Z'),
+      to: Date.parse('2026-10-12T18:00:00Z')
+    });
+  });
+
+  it('defaults to everything up to now', () => {
+    vi.useFakeTimers({ now: Date.parse('2026-10-19T12:00:00Z') });
+    try {
+      expect(resolveRange({})).toEqual({ from: 0, to: Date.parse('2026-10-19T12:00:00Z') });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects invalid dates and ranges', () => {
+    expect(() => resolveRange({ date: 'yesterday' })).toThrow('Invalid date: yesterday. Use YYYY-MM-DD');
+    expect(() => resolveRange({ from: 'last week' })).toThrow('Invalid from/to range');
+    expect(() => resolveRange({ from: '2026-10-10', to: '2026-13-40' })).toThrow('Invalid from/to range');
+  });
+});
+
+describe('NewsArchive', () => {
+  let archiveDir: string;
+  let archive: NewsArchive;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    archiveDir = fs.mkdtempSync(path.join(os.tmpdir(), 'news-archive-'));
+    archive = new NewsArchive({ archiveDir });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(archiveDir, { recursive: true, force: true });
+  });
+
+  it('keeps one entry per URL and tracks when it was seen', async () => {
+    const story = makeArticle('storm', '2026-10-12T08:00:00Z');
+
+    expect(await archive.recordArticles([story], '2026-10-12T09:00:00Z')).toEqual({ added: 1, updated: 0 });
+    // A re-scrape with a new id and title is still the same story
+    const rescraped = { ...story, id: 'storm-updated', title: 'Storm update' };
+    expect(await archive.recordArticles([rescraped], '2026-10-12T15:00:00Z')).toEqual({ added: 0, updated: 1 });
+
+    expect(await archive.getByUrl(story.url)).toMatchObject({
+      title: 'Storm update',
+      firstSeenAt: '2026-10-12T09:00:00Z',
+      lastSeenAt: '2026-10-12T15:00:00Z',
+      seenCount: 2
+    });
+    expect((await archive.getStats()).totalArticles).toBe(1);
+  });
+
+  it('serializes concurrent writes', async () => {
+    await Promise.all([
+      archive.recordArticles([makeArticle('a', '2026-10-12T08:00:00Z')]),
+      archive.recordArticles([makeArticle('b', '2026-10-12T08:00:00Z')])
+    ]);
+
+    expect((await archive.getStats()).totalArticles).toBe(2);
+  });
+
+  it('matches articles published or live in the range, with inclusive bounds', async () => {
+    const noon = '2026-10-12T12:00:00Z';
+    // Published exactly at the end of the range
+    await archive.recordArticles([makeArticle('at-end', noon)], noon);
+    // Published earlier, but still in the feed when the range starts
+    await archive.recordArticles([makeArticle('still-live', '2026-10-11T08:00:00Z')], '2026-10-11T09:00:00Z');
+    await archive.recordArticles([makeArticle('still-live', '2026-10-11T08:00:00Z')], '2026-10-12T06:00:00Z');
+    // Gone from the feed one millisecond before the range starts
+    await archive.recordArticles([makeArticle('gone', '2026-10-11T08:00:00Z')], '2026-10-12T05:59:59.999Z');
+    // Published one millisecond after the range ends
+    await archive.recordArticles([makeArticle('after', '2026-10-12T12:00:00.001Z')], '2026-10-12T12:00:00.001Z');
+
+    const results = await archive.query({ from: '2026-10-12T06:00:00Z', to: noon });
+    expect(results.map(article => article.id)).toEqual(['at-end', 'still-live']);
+  });
+
+  it('filters by category and source and applies the limit newest first', async () => {
+    await archive.recordArticles([
+      makeArticle('us-early', '2026-10-12T08:00:00Z'),
+      makeArticle('us-late', '2026-10-12T10:00:00Z'),
+      makeArticle('bbc-world', '2026-10-12T09:00:00Z', {
+        url: 'https://www.bbc.com/news/world-1',
+        category: 'World',
+        source: 'BBC News',
+        sourceId: 'bbc'
+      })
+    ], '2026-10-12T10:00:00Z');
+
+    const range = { from: '2026-10-12T00:00:00Z', to: '2026-10-12T23:59:59Z' };
+    expect((await archive.query({ ...range, category: 'us' })).map(article => article.id)).toEqual(['us-late', 'us-early']);
+    expect((await archive.query({ ...range, source: 'bbc' })).map(article => article.id)).toEqual(['bbc-world']);
+    expect((await archive.query({ ...range, source: 'BBC News' })).map(article => article.id)).toEqual(['bbc-world']);
+    expect((await archive.query({ ...range, limit: 1 })).map(article => article.id)).toEqual(['us-late']);
+  });
+
+  it('rejects an invalid range', async () => {
+    await expect(archive.query({ date: '12/10/2026' })).rejects.toThrow('Invalid date');
+  });
+
+  it('quarantines an unreadable archive instead of overwriting it', async () => {
+    fs.writeFileSync(path.join(archiveDir, 'articles.json'), '{"https://abcnews.go.com/US/a": {');
+
+    expect(await archive.query()).toEqual([]);
+    expect(fs.existsSync(path.join(archiveDir, 'articles.json'))).toBe(false);
+    expect(fs.readdirSync(path.join(archiveDir, 'quarantine'))).toEqual([expect.stringMatching(/^articles\..+\.json$/)]);
+  });
+});
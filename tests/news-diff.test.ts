@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { diffArticles, mergeChangeSets } from '../src/lib/news-diff';
+import type { NewsArticle, NewsChangeSet } from '../src/lib/types';
+
+function makeArticle(slug: string, title = `Story ${slug}`): NewsArticle {
+  return {
+    id: `abc-${slug}`,
+    title,
+    url: `https://abcnews.go.com/${slug}`,
+    category: 'US',
+    publishedAt: '2026-10-18T20:00:00.000Z',
+    scrapedAt: '2026-10-19T06:00:00.000Z'
+  };
+}
+
+const url = (slug: string) => `https://abcnews.go.com/${slug}`;
+
+function changeSet(at: string, changes: Partial<Omit<NewsChangeSet, 'at'>>): NewsChangeSet {
+  return { at, added: [], removed: [], titleChanged: [], ...changes };
+}
+
+describe('diffArticles', () => {
+  it('reports added, removed and retitled articles by URL', () => {
+    const previous = [makeArticle('a'), makeArticle('b'), makeArticle('c')];
+    const current = [makeArticle('b', 'Story b, updated'), makeArticle('c'), makeArticle('d')];
+
+    expect(diffArticles(previous, current, '2026-10-19T06:00:00.000Z')).toEqual({
+      at: '2026-10-19T06:00:00.000Z',
+      added: [url('d')],
+      removed: [url('a')],
+      titleChanged: [{ url: url('b'), previousTitle: 'Story b', title: 'Story b, updated' }]
+    });
+  });
+
+  it('treats everything as added for the first snapshot', () => {
+    const change = diffArticles([], [makeArticle('a'), makeArticle('b')], '2026-10-19T06:00:00.000Z');
+    expect(change).toMatchObject({ added: [url('a'), url('b')], removed: [], titleChanged: [] });
+  });
+});
+
+describe('mergeChangeSets', () => {
+  const since = '2026-10-18T00:00:00.000Z';
+
+  it('folds consecutive refreshes into the net change', () => {
+    const merged = mergeChangeSets([
+      changeSet('2026-10-18T06:00:00.000Z', { added: [url('a'), url('b')], removed: [url('x')] }),
+      changeSet('2026-10-18T12:00:00.000Z', { added: [url('c')], removed: [url('y')] })
+    ], since);
+
+    expect(merged).toEqual({
+      since,
+      refreshes: 2,
+      added: [url('a'), url('b'), url('c')],
+      removed: [url('x'), url('y')],
+      titleChanged: []
+    });
+  });
+
+  it('drops stories that came and went, and stories that went and came back', () => {
+    const merged = mergeChangeSets([
+      changeSet('2026-10-18T06:00:00.000Z', { added: [url('brief')], removed: [url('back')] }),
+      changeSet('2026-10-18T12:00:00.000Z', { added: [url('back')], removed: [url('brief')] })
+    ], since);
+
+    expect(merged).toMatchObject({ added: [], removed: [] });
+  });
+
+  it('keeps the earliest previous title across several retitles', () => {
+    const merged = mergeChangeSets([
+      changeSet('2026-10-18T06:00:00.000Z', { titleChanged: [{ url: url('a'), previousTitle: 'First', title: 'Second' }] }),
+      changeSet('2026-10-18T12:00:00.000Z', { titleChanged: [{ url: url('a'), previousTitle: 'Second', title: 'Third' }] })
+    ], since);
+
+    expect(merged.titleChanged).toEqual([{ url: url('a'), previousTitle: 'First', title: 'Third' }]);
+  });
+
+  it('leaves out retitles that were reverted or belong to added or removed stories', () => {
+    const merged = mergeChangeSets([
+      changeSet('2026-10-18T06:00:00.000Z', {
+        added: [url('new')],
+        titleChanged: [
+          { url: url('reverted'), previousTitle: 'Original', title: 'Typo' },
+          { url: url('gone'), previousTitle: 'Before', title: 'After' }
+        ]
+      }),
+      changeSet('2026-10-18T12:00:00.000Z', {
+        removed: [url('gone')],
+        titleChanged: [
+          { url: url('reverted'), previousTitle: 'Typo', title: 'Original' },
+          { url: url('new'), previousTitle: 'Draft', title: 'Final' }
+        ]
+      })
+    ], since);
+
+    expect(merged.titleChanged).toEqual([]);
+    expect(merged).toMatchObject({ added: [url('new')], removed: [url('gone')] });
+  });
+
+  it('reports no changes when there were no refreshes', () => {
+    expect(mergeChangeSets([], since)).toEqual({ since, refreshes: 0, added: [], removed: [], titleChanged: [] });
+  });
+});
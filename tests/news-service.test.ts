@@ -0,0 +1,187 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileCacheStorage } from '../src/lib/cache-storage';
+import { CACHE_SCHEMA_VERSION } from '../src/lib/cache-schema';
+import type { NewsSource, SourceScrapeResult } from '../src/lib/news-source';
+import NewsService from '../src/lib/news-service';
+import { NewsSourceRegistry } from '../src/lib/source-registry';
+import type { NewsArticle } from '../src/lib/types';
+
+const HOUR = 60 * 60 * 1000;
+
+function makeArticle(slug: string, at: string): NewsArticle {
+  return {
+    id: slug,
+    title: `Story ${slug}`,
+    url: `https://news.example.com/${slug}`,
+    category: 'US',
+    publishedAt: at,
+    scrapedAt: at
+  };
+}
+
+/**
+ * A source whose scrapes stay pending until the test finishes them
+ */
+class ControlledSource {
+  id = 'test';
+  name = 'Test News';
+  baseUrl = 'https://news.example.com';
+  ingestion = 'html' as const;
+  scrapes: Array<(result: SourceScrapeResult) => void> = [];
+
+  scrapeLatestNews(): Promise<SourceScrapeResult> {
+    return new Promise(resolve => this.scrapes.push(resolve));
+  }
+
+  finishScrape(slug: string): void {
+    const at = new Date().toISOString();
+    this.scrapes.shift()!({ source: this.name, scrapedAt: at, totalArticles: 1, articles: [makeArticle(slug, at)] });
+  }
+}
+
+describe('NewsService stale-while-revalidate', () => {
+  let cacheDir: string;
+  let source: ControlledSource;
+  let registry: NewsSourceRegistry;
+  const originalEnv = process.env.NEWS_STALE_WHILE_REVALIDATE;
+
+  /**
+   * Write a cached snapshot that was refreshed `ageMs` ago
+   */
+  async function seedCache(ageMs: number): Promise<void> {
+    const at = new Date(Date.now() - ageMs);
+    const news = {
+      schemaVersion: CACHE_SCHEMA_VERSION,
+      lastUpdated: at.toISOString(),
+      source: 'Test News',
+      sources: ['Test News'],
+      scrapedAt: at.toISOString(),
+      totalArticles: 1,
+      articles: [makeArticle('old', at.toISOString())]
+    };
+    await new FileCacheStorage(path.join(cacheDir, 'cache')).writeNews(news, {
+      lastRefresh: news.lastUpdated,
+      nextScheduledRefresh: null,
+      totalArticlesCached: 1,
+      cacheSize: 100
+    });
+    fs.utimesSync(path.join(cacheDir, 'cache', 'news-cache.json'), at, at);
+  }
+
+  function createService(options: { staleWhileRevalidate?: boolean } = {}): NewsService {
+    return new NewsService({ registry, sources: ['test'], autoSchedule: false, ...options });
+  }
+
+  /**
+   * Whether a promise is still pending after pending I/O has had a chance to run
+   */
+  async function isPending(promise: Promise<unknown>): Promise<boolean> {
+    let settled = false;
+    promise.then(() => { settled = true; }, () => { settled = true; });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    return !settled;
+  }
+
+  /**
+   * Wait until the service has asked the source for a scrape
+   */
+  async function waitForScrape(): Promise<void> {
+    await vi.waitFor(() => expect(source.scrapes.length).toBeGreaterThan(0));
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'news-service-'));
+    // Cache, lock and jobs files all live under the working directory
+    vi.spyOn(process, 'cwd').mockReturnValue(cacheDir);
+    delete process.env.NEWS_STALE_WHILE_REVALIDATE;
+
+    source = new ControlledSource();
+    registry = new NewsSourceRegistry();
+    registry.register('test', () => source as unknown as NewsSource);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (originalEnv === undefined) {
+      delete process.env.NEWS_STALE_WHILE_REVALIDATE;
+    } else {
+      process.env.NEWS_STALE_WHILE_REVALIDATE = originalEnv;
+    }
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('serves an expired cache as stale and refreshes it once in the background', async () => {
+    await seedCache(25 * HOUR);
+    const service = createService({ staleWhileRevalidate: true });
+
+    const [first, second] = await Promise.all([service.getLatestNews(), service.getLatestNews()]);
+
+    expect(first).toMatchObject({ isStale: true, fromCache: true });
+    expect(first.articles.map(article => article.id)).toEqual(['old']);
+    expect(second).toMatchObject({ isStale: true });
+    await waitForScrape();
+    expect(source.scrapes).toHaveLength(1);
+
+    source.finishScrape('new');
+    await vi.waitFor(async () => {
+      const fresh = await service.getLatestNews();
+      expect(fresh.articles.map(article => article.id)).toEqual(['new']);
+      expect(fresh.isStale).toBeUndefined();
+    });
+    expect(source.scrapes).toHaveLength(0);
+  });
+
+  it('waits for a scrape once the cache is past the hard expiry', async () => {
+    await seedCache(73 * HOUR);
+    const service = createService({ staleWhileRevalidate: true });
+
+    const request = service.getLatestNews();
+    await waitForScrape();
+    expect(await isPending(request)).toBe(true);
+
+    source.finishScrape('new');
+    const news = await request;
+    expect(news).toMatchObject({ freshlyScraped: true });
+    expect(news.isStale).toBeUndefined();
+  });
+
+  it('waits for a scrape by default when NEWS_STALE_WHILE_REVALIDATE is unset', async () => {
+    await seedCache(25 * HOUR);
+    const service = createService();
+
+    const request = service.getLatestNews();
+    await waitForScrape();
+    expect(await isPending(request)).toBe(true);
+
+    source.finishScrape('new');
+    expect((await request).articles.map(article => article.id)).toEqual(['new']);
+  });
+
+  it('can be turned on with NEWS_STALE_WHILE_REVALIDATE=true', async () => {
+    process.env.NEWS_STALE_WHILE_REVALIDATE = 'true';
+    await seedCache(25 * HOUR);
+    const service = createService();
+
+    expect(await service.getLatestNews()).toMatchObject({ isStale: true });
+    await waitForScrape();
+    source.finishScrape('new');
+    await vi.waitFor(() => expect(source.scrapes).toHaveLength(0));
+  });
+
+  it('serves a fresh cache without scraping', async () => {
+    await seedCache(HOUR);
+    const service = createService({ staleWhileRevalidate: true });
+
+    const news = await service.getLatestNews();
+    expect(news.fromCache).toBe(true);
+    expect(news.isStale).toBeUndefined();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(source.scrapes).toHaveLength(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { checkRobots, parseRobots } from '../src/lib/robots';
+
+const BOT = 'NewsStorytellerBot';
+
+describe('parseRobots', () => {
+  it('groups consecutive user-agent lines and ignores comments and unknown fields', () => {
+    const rules = parseRobots([
+      '# Our crawlers policy',
+      'User-agent: GoogleBot',
+      'User-agent: NewsStorytellerBot  # us',
+      'Disallow: /private',
+      'Sitemap: https://news.example.com/sitemap.xml',
+      '',
+      'User-agent: *',
+      'Disallow:',
+      'Allow: /'
+    ].join('\r\n'));
+
+    expect(rules.groups).toEqual([
+      { agents: ['googlebot', 'newsstorytellerbot'], rules: [{ allow: false, path: '/private' }] },
+      // An empty Disallow adds no rule
+      { agents: ['*'], rules: [{ allow: true, path: '/' }] }
+    ]);
+  });
+
+  it('reads Crawl-delay, ignoring values that are not a non-negative number', () => {
+    const rules = parseRobots([
+      'User-agent: a',
+      'Crawl-delay: 2.5',
+      'User-agent: b',
+      'Crawl-delay: soon',
+      'User-agent: c',
+      'Crawl-delay: -1'
+    ].join('\n'));
+
+    expect(rules.groups.map(group => group.crawlDelay)).toEqual([2.5, undefined, undefined]);
+  });
+
+  it('ignores rules before the first user-agent line', () => {
+    expect(parseRobots('Disallow: /\nUser-agent: *\nDisallow: /admin').groups).toEqual([
+      { agents: ['*'], rules: [{ allow: false, path: '/admin' }] }
+    ]);
+  });
+});
+
+describe('checkRobots', () => {
+  it('uses the most specific matching agent group, falling back to *', () => {
+    const rules = parseRobots([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: NewsStoryteller',
+      'Disallow: /drafts',
+      '',
+      'User-agent: NewsStorytellerBot',
+      'Disallow: /archive'
+    ].join('\n'));
+
+    expect(checkRobots(rules, BOT, '/archive/2020')).toMatchObject({ allowed: false });
+    // Only the most specific group applies, not the shorter "NewsStoryteller" one
+    expect(checkRobots(rules, BOT, '/drafts/1')).toMatchObject({ allowed: true });
+    expect(checkRobots(rules, 'OtherBot', '/news')).toMatchObject({ allowed: false });
+  });
+
+  it('merges groups that name the same agent', () => {
+    const rules = parseRobots('User-agent: *\nDisallow: /a\n\nUser-agent: *\nDisallow: /b');
+    expect(checkRobots(rules, BOT, '/a')).toMatchObject({ allowed: false });
+    expect(checkRobots(rules, BOT, '/b')).toMatchObject({ allowed: false });
+  });
+
+  it('lets the longest matching rule win, and Allow win a tie', () => {
+    const rules = parseRobots([
+      'User-agent: *',
+      'Disallow: /news',
+      'Allow: /news/public',
+      'Disallow: /news/public/embargoed',
+      'Disallow: /tie',
+      'Allow: /tie'
+    ].join('\n'));
+
+    expect(checkRobots(rules, BOT, '/news/world')).toEqual({ allowed: false, rule: { allow: false, path: '/news' } });
+    expect(checkRobots(rules, BOT, '/news/public/story')).toEqual({ allowed: true, rule: { allow: true, path: '/news/public' } });
+    expect(checkRobots(rules, BOT, '/news/public/embargoed/1')).toMatchObject({ allowed: false });
+    expect(checkRobots(rules, BOT, '/tie')).toEqual({ allowed: true, rule: { allow: true, path: '/tie' } });
+    expect(checkRobots(rules, BOT, '/sports')).toEqual({ allowed: true });
+  });
+
+  it('supports * and $ wildcards, matching the query string too', () => {
+    const rules = parseRobots([
+      'User-agent: *',
+      'Disallow: /*.pdf$',
+      'Disallow: /*?print=',
+      'Disallow: /search*results'
+    ].join('\n'));
+
+    expect(checkRobots(rules, BOT, '/reports/annual.pdf').allowed).toBe(false);
+    expect(checkRobots(rules, BOT, '/reports/annual.pdf?download=1').allowed).toBe(true);
+    expect(checkRobots(rules, BOT, '/story/1?print=true').allowed).toBe(false);
+    expect(checkRobots(rules, BOT, '/search/all/results').allowed).toBe(false);
+    // Regex characters in a rule are literal
+    expect(checkRobots(parseRobots('User-agent: *\nDisallow: /a.b'), BOT, '/axb').allowed).toBe(true);
+  });
+
+  it('reports the crawl delay of the matched group', () => {
+    const rules = parseRobots('User-agent: *\nCrawl-delay: 5\n\nUser-agent: NewsStorytellerBot\nCrawl-delay: 1\nDisallow: /x');
+    expect(checkRobots(rules, BOT, '/news')).toEqual({ allowed: true, crawlDelay: 1 });
+    expect(checkRobots(rules, 'OtherBot', '/news')).toEqual({ allowed: true, crawlDelay: 5 });
+  });
+
+  it('always allows robots.txt itself and sites without rules', () => {
+    expect(checkRobots(parseRobots('User-agent: *\nDisallow: /'), BOT, '/robots.txt').allowed).toBe(true);
+    expect(checkRobots(parseRobots(''), BOT, '/anything').allowed).toBe(true);
+  });
+});
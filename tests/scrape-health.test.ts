@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import type { CacheStorage } from '../src/lib/cache-storage';
+import { detectAnomalies, getScrapeHealth } from '../src/lib/scrape-health';
+import type { PageScrapeMetrics, ScrapeRun } from '../src/lib/types';
+
+type PageResult = number | { error: string; status?: number };
+
+let runCount = 0;
+
+/**
+ * A scrape run of the ABC source with one page per category
+ */
+function makeRun(pages: Record<string, PageResult>, options: { sourceId?: string; error?: string } = {}): ScrapeRun {
+  const at = new Date(Date.UTC(2026, 9, 1) + runCount++ * 60 * 60 * 1000).toISOString();
+  const pageMetrics: PageScrapeMetrics[] = Object.entries(pages).map(([category, result]) => ({
+    category,
+    url: `https://abcnews.go.com/${category.toLowerCase()}`,
+    status: typeof result === 'number' ? 200 : result.status ?? 0,
+    notModified: false,
+    durationMs: 100,
+    articles: typeof result === 'number' ? result : 0,
+    strategies: {},
+    ...(typeof result === 'number' ? {} : { error: result.error })
+  }));
+
+  const sourceId = options.sourceId || 'abc';
+  return {
+    at,
+    durationMs: 1000,
+    sources: [{
+      sourceId,
+      source: sourceId === 'abc' ? 'ABC News' : sourceId.toUpperCase(),
+      ingestion: 'html',
+      durationMs: 1000,
+      articles: pageMetrics.reduce((sum, page) => sum + page.articles, 0),
+      pages: pageMetrics,
+      ...(options.error ? { error: options.error } : {})
+    }]
+  };
+}
+
+function history(...yields: PageResult[]): ScrapeRun[] {
+  return yields.map(result => makeRun({ Politics: result }));
+}
+
+describe('detectAnomalies', () => {
+  it('reports nothing for a healthy history', () => {
+    expect(detectAnomalies(history(20, 22, 18, 21))).toEqual([]);
+  });
+
+  it('warns about a yield drop against the rolling average', () => {
+    const [anomaly] = detectAnomalies(history(20, 20, 20, 8));
+
+    expect(anomaly).toMatchObject({
+      sourceId: 'abc',
+      category: 'Politics',
+      kind: 'yield-drop',
+      severity: 'warning',
+      articles: 8,
+      average: 20
+    });
+    expect(anomaly.message).toBe('ABC News Politics yielded 8 articles, 60% below its rolling average of 20.0');
+  });
+
+  it('only averages the runs inside the window', () => {
+    // The 20 falls outside a window of 3, so the average is 8 and 8 is no drop
+    const runs = history(20, 8, 8, 8, 8);
+    expect(detectAnomalies(runs, { window: 3, dropThreshold: 0.25 })).toEqual([]);
+
+    // A window of 4 reaches it: average 11, and 8 is more than 25% below
+    expect(detectAnomalies(runs, { window: 4, dropThreshold: 0.25 })).toEqual([
+      expect.objectContaining({ kind: 'yield-drop', average: 11 })
+    ]);
+  });
+
+  it('reports a category that returned no articles as critical', () => {
+    expect(detectAnomalies(history(12, 10, 11, 0))).toEqual([
+      expect.objectContaining({
+        kind: 'empty',
+        severity: 'critical',
+        articles: 0,
+        average: 11,
+        message: 'ABC News Politics returned no articles (rolling average 11.0), the page markup may have changed'
+      })
+    ]);
+  });
+
+  it('reports failed pages and failed sources as critical', () => {
+    expect(detectAnomalies(history(10, 10, 10, { error: 'timeout of 30000ms exceeded', status: 503 }))).toEqual([
+      expect.objectContaining({
+        kind: 'fetch-failed',
+        severity: 'critical',
+        average: 10,
+        message: 'ABC News Politics could not be fetched (HTTP 503): timeout of 30000ms exceeded'
+      })
+    ]);
+
+    expect(detectAnomalies([...history(10, 10, 10), makeRun({}, { error: 'DNS lookup failed' })])).toEqual([
+      expect.objectContaining({ category: 'All', kind: 'fetch-failed', average: null, message: 'ABC News failed: DNS lookup failed' })
+    ]);
+  });
+
+  it('leaves failed runs out of the baseline', () => {
+    const runs = history(10, { error: 'HTTP 500', status: 500 }, 10, 10, 10);
+    expect(detectAnomalies(runs)).toEqual([]);
+    expect(detectAnomalies([...runs, makeRun({ Politics: 4 })])).toEqual([
+      expect.objectContaining({ kind: 'yield-drop', average: 10 })
+    ]);
+  });
+
+  it('needs enough history before judging yields', () => {
+    // No history at all: only outright failures can be reported
+    expect(detectAnomalies(history(0))).toEqual([]);
+    expect(detectAnomalies([])).toEqual([]);
+
+    // Two previous runs are below minHistory, three are enough
+    expect(detectAnomalies(history(10, 10, 0))).toEqual([]);
+    expect(detectAnomalies(history(10, 10, 10, 0))).toEqual([expect.objectContaining({ kind: 'empty' })]);
+  });
+
+  it('ignores drops in categories that normally yield few articles', () => {
+    expect(detectAnomalies(history(4, 4, 4, 1))).toEqual([]);
+  });
+
+  it('judges only the latest run of each source', () => {
+    const runs = [
+      ...history(10, 10, 10, 0),
+      // A later partial refresh of another source doesn't hide the ABC anomaly
+      makeRun({ World: 10 }, { sourceId: 'bbc' })
+    ];
+    expect(detectAnomalies(runs)).toEqual([expect.objectContaining({ sourceId: 'abc', kind: 'empty' })]);
+  });
+});
+
+describe('getScrapeHealth', () => {
+  function storageWith(runs: ScrapeRun[]): CacheStorage {
+    return { getScrapeRuns: async (limit: number) => runs.slice(-limit) } as unknown as CacheStorage;
+  }
+
+  it('is ok with no runs recorded', async () => {
+    expect(await getScrapeHealth(storageWith([]))).toEqual({ status: 'ok', lastRunAt: null, anomalies: [], runs: [] });
+  });
+
+  it('is degraded for warnings and failing for critical anomalies', async () => {
+    expect((await getScrapeHealth(storageWith(history(20, 20, 20, 8)))).status).toBe('degraded');
+    expect((await getScrapeHealth(storageWith(history(20, 20, 20, 0)))).status).toBe('failing');
+  });
+
+  it('returns recent runs newest first, optionally for one source', async () => {
+    const abcRuns = history(10, 10, 10, 0);
+    const bbcRun = makeRun({ World: 10 }, { sourceId: 'bbc' });
+    const storage = storageWith([...abcRuns, bbcRun]);
+
+    const health = await getScrapeHealth(storage, { limit: 2 });
+    expect(health.runs.map(run => run.at)).toEqual([bbcRun.at, abcRuns[3].at]);
+    expect(health.lastRunAt).toBe(bbcRun.at);
+
+    const bbc = await getScrapeHealth(storage, { sourceId: 'bbc' });
+    expect(bbc).toMatchObject({ status: 'ok', lastRunAt: bbcRun.at, anomalies: [] });
+    expect(bbc.runs).toHaveLength(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NewsSource } from '../src/lib/news-source';
+import {
+  NewsSourceRegistry,
+  getConfiguredSourceIds,
+  newsSourceRegistry,
+  parseSourceSelection
+} from '../src/lib/source-registry';
+
+function makeSource(id: string): NewsSource {
+  return { id, name: id.toUpperCase(), ingestion: 'html' } as NewsSource;
+}
+
+describe('parseSourceSelection', () => {
+  it('reads an id with an optional ingestion mode', () => {
+    expect(parseSourceSelection('bbc')).toEqual({ id: 'bbc', ingestion: undefined });
+    expect(parseSourceSelection(' abc : feed ')).toEqual({ id: 'abc', ingestion: 'feed' });
+    expect(parseSourceSelection('npr:html')).toEqual({ id: 'npr', ingestion: 'html' });
+    // A trailing colon keeps the source's own mode
+    expect(parseSourceSelection('npr:')).toEqual({ id: 'npr', ingestion: undefined });
+  });
+
+  it('rejects unknown modes and empty selections', () => {
+    expect(() => parseSourceSelection('abc:rss')).toThrow('Invalid ingestion mode "rss" for news source abc. Use "html" or "feed"');
+    expect(() => parseSourceSelection('')).toThrow('Invalid news source ""');
+    expect(() => parseSourceSelection(' :feed')).toThrow('Invalid news source " :feed"');
+  });
+});
+
+describe('NewsSourceRegistry', () => {
+  let registry: NewsSourceRegistry;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    registry = new NewsSourceRegistry();
+    registry.register('abc', () => makeSource('abc'));
+    registry.register('bbc', () => makeSource('bbc'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('creates a fresh source per call and applies the requested mode', () => {
+    const first = registry.create('abc');
+    const second = registry.create('abc:feed');
+
+    expect(first).not.toBe(second);
+    expect(first.ingestion).toBe('html');
+    expect(second.ingestion).toBe('feed');
+  });
+
+  it('rejects unknown ids, listing the available sources', () => {
+    expect(() => registry.create('cnn')).toThrow('Unknown news source: cnn. Available sources: abc, bbc');
+    expect(() => registry.createSources(['abc', 'cnn'])).toThrow('Unknown news source: cnn');
+  });
+
+  it('creates each selected source once, keeping the first spec', () => {
+    const sources = registry.createSources(['abc:feed', 'bbc', 'abc']);
+
+    expect(sources.map(source => `${source.id}:${source.ingestion}`)).toEqual(['abc:feed', 'bbc:html']);
+    expect(console.warn).toHaveBeenCalledWith('⚠️ News source abc is selected more than once, ignoring "abc"');
+  });
+
+  it('creates nothing for an empty selection', () => {
+    expect(registry.createSources([])).toEqual([]);
+  });
+
+  it('replaces a factory registered under the same id', () => {
+    registry.register('abc', () => makeSource('abc-v2'));
+
+    expect(registry.list()).toEqual(['abc', 'bbc']);
+    expect(registry.create('abc').id).toBe('abc-v2');
+  });
+
+  it('registers every built-in source by default', () => {
+    expect(newsSourceRegistry.list()).toEqual(['abc', 'bbc', 'npr', 'reuters', 'the-hindu']);
+    expect(newsSourceRegistry.has('abc')).toBe(true);
+  });
+});
+
+describe('getConfiguredSourceIds', () => {
+  const originalSources = process.env.NEWS_SOURCES;
+
+  afterEach(() => {
+    if (originalSources === undefined) {
+      delete process.env.NEWS_SOURCES;
+    } else {
+      process.env.NEWS_SOURCES = originalSources;
+    }
+  });
+
+  it('defaults to ABC News when NEWS_SOURCES is unset or empty', () => {
+    delete process.env.NEWS_SOURCES;
+    expect(getConfiguredSourceIds()).toEqual(['abc']);
+
+    process.env.NEWS_SOURCES = ' , ';
+    expect(getConfiguredSourceIds()).toEqual(['abc']);
+  });
+
+  it('splits and trims the configured specs', () => {
+    process.env.NEWS_SOURCES = 'abc:feed, bbc ,,npr';
+    expect(getConfiguredSourceIds()).toEqual(['abc:feed', 'bbc', 'npr']);
+  });
+});
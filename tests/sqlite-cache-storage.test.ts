@@ -0,0 +1,173 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CACHE_SCHEMA_VERSION } from '../src/lib/cache-schema';
+import { SqliteCacheStorage } from '../src/lib/sqlite-cache-storage';
+import type { CachedNews, CacheMetadata, NewsArticle } from '../src/lib/types';
+
+function makeArticle(slug: string, overrides: Partial<NewsArticle> = {}): NewsArticle {
+  return {
+    id: `abc-${slug}`,
+    title: `Story ${slug}`,
+    url: `https://abcnews.go.com/${slug}`,
+    category: 'Politics',
+    publishedAt: '2026-10-18T20:00:00.000Z',
+    scrapedAt: '2026-10-19T06:00:00.000Z',
+    source: 'ABC News',
+    sourceId: 'abc',
+    ...overrides
+  };
+}
+
+function makeNews(articles: NewsArticle[], at = '2026-10-19T06:00:00.000Z'): CachedNews {
+  return {
+    schemaVersion: CACHE_SCHEMA_VERSION,
+    lastUpdated: at,
+    source: 'ABC News',
+    sources: ['ABC News'],
+    scrapedAt: at,
+    totalArticles: articles.length,
+    articles
+  };
+}
+
+function makeMetadata(news: CachedNews): CacheMetadata {
+  return { lastRefresh: news.lastUpdated, nextScheduledRefresh: null, totalArticlesCached: news.totalArticles, cacheSize: 100 };
+}
+
+describe('SqliteCacheStorage', () => {
+  let cacheDir: string;
+  let dbPath: string;
+  let storage: SqliteCacheStorage;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-cache-'));
+    dbPath = path.join(cacheDir, 'news.db');
+    storage = new SqliteCacheStorage(dbPath);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('writes and reads the current snapshot in order, replacing the previous one', async () => {
+    expect(await storage.readNews()).toBeNull();
+    expect(await storage.getLastWrite()).toBeNull();
+
+    const first = makeNews([makeArticle('a'), makeArticle('b'), makeArticle('c')]);
+    await storage.writeNews(first, makeMetadata(first));
+    expect(await storage.readNews()).toEqual(first);
+    expect(await storage.readMetadata()).toEqual(makeMetadata(first));
+
+    const second = makeNews([makeArticle('c'), makeArticle('a', { title: 'Story a, updated' })], '2026-10-19T12:00:00.000Z');
+    await storage.writeNews(second, makeMetadata(second));
+    expect((await storage.readNews())?.articles.map(article => article.title)).toEqual(['Story c', 'Story a, updated']);
+    expect(await storage.getLastWrite()).toEqual(new Date('2026-10-19T12:00:00.000Z'));
+    expect(await storage.getSize()).toBeGreaterThan(0);
+  });
+
+  it('keeps the archive when the snapshot is cleared', async () => {
+    const news = makeNews([makeArticle('a'), makeArticle('b')]);
+    await storage.writeNews(news, makeMetadata(news));
+    await storage.recordArticles([makeArticle('a')], '2026-10-19T06:00:00.000Z');
+
+    await storage.clearNews();
+
+    expect(await storage.readNews()).toBeNull();
+    expect(await storage.readMetadata()).toBeNull();
+    expect(await storage.getArticleByUrl('https://abcnews.go.com/a')).not.toBeNull();
+    // Only recorded articles make up the archive
+    expect(await storage.getArticleByUrl('https://abcnews.go.com/b')).toBeNull();
+  });
+
+  it('archives articles, counting sightings and keeping the first sighting', async () => {
+    expect(await storage.recordArticles([makeArticle('a'), makeArticle('b')], '2026-10-18T06:00:00.000Z')).toEqual({ added: 2, updated: 0 });
+    expect(await storage.recordArticles([makeArticle('a'), makeArticle('c')], '2026-10-19T06:00:00.000Z')).toEqual({ added: 1, updated: 1 });
+
+    expect(await storage.getArticleByUrl('https://abcnews.go.com/a')).toMatchObject({
+      firstSeenAt: '2026-10-18T06:00:00.000Z',
+      lastSeenAt: '2026-10-19T06:00:00.000Z',
+      seenCount: 2
+    });
+    expect(await storage.getArchiveStats()).toEqual({
+      totalArticles: 3,
+      oldestSeenAt: '2026-10-18T06:00:00.000Z',
+      newestSeenAt: '2026-10-19T06:00:00.000Z'
+    });
+  });
+
+  it('queries the archive by range, category and source, newest first', async () => {
+    await storage.recordArticles([makeArticle('old', { publishedAt: '2026-10-01T10:00:00.000Z' })], '2026-10-01T16:00:00.000Z');
+    await storage.recordArticles([
+      makeArticle('us', { category: 'US', publishedAt: '2026-10-18T10:00:00.000Z' }),
+      makeArticle('politics', { publishedAt: '2026-10-18T12:00:00.000Z' }),
+      makeArticle('bbc', { source: 'BBC News', sourceId: 'bbc', publishedAt: '2026-10-18T14:00:00.000Z' })
+    ], '2026-10-18T16:00:00.000Z');
+
+    const range = { from: '2026-10-18T00:00:00.000Z', to: '2026-10-18T23:59:59.000Z' };
+    const urls = async (query: object) => (await storage.queryArticles({ ...range, ...query })).map(article => article.url);
+
+    expect(await urls({})).toEqual([
+      'https://abcnews.go.com/bbc',
+      'https://abcnews.go.com/politics',
+      'https://abcnews.go.com/us'
+    ]);
+    expect(await urls({ category: 'us' })).toEqual(['https://abcnews.go.com/us']);
+    expect(await urls({ source: 'bbc' })).toEqual(['https://abcnews.go.com/bbc']);
+    expect(await urls({ source: 'ABC News', limit: 1 })).toEqual(['https://abcnews.go.com/politics']);
+  });
+
+  it('returns change sets after a point in time, oldest first', async () => {
+    const changeSet = (at: string) => ({ at, added: [`https://abcnews.go.com/${at}`], removed: [], titleChanged: [] });
+    await storage.recordChanges(changeSet('2026-10-18T06:00:00.000Z'));
+    await storage.recordChanges(changeSet('2026-10-19T06:00:00.000Z'));
+    await storage.recordChanges(changeSet('2026-10-19T12:00:00.000Z'));
+
+    const changes = await storage.getChangesSince('2026-10-18T06:00:00.000Z');
+    expect(changes.map(change => change.at)).toEqual(['2026-10-19T06:00:00.000Z', '2026-10-19T12:00:00.000Z']);
+  });
+
+  it('returns the most recent scrape runs, oldest first', async () => {
+    for (const at of ['2026-10-17T06:00:00.000Z', '2026-10-18T06:00:00.000Z', '2026-10-19T06:00:00.000Z']) {
+      await storage.recordScrapeRun({ at, durationMs: 1000, sources: [] });
+    }
+
+    expect((await storage.getScrapeRuns(2)).map(run => run.at)).toEqual(['2026-10-18T06:00:00.000Z', '2026-10-19T06:00:00.000Z']);
+  });
+
+  it('stores narrations per link and persona', async () => {
+    const link = 'https://abcnews.go.com/a';
+    await storage.storeNarration(link, { narration: 'Once upon a time' });
+    await storage.storeNarration(link, { narration: 'The city was quiet' }, 'noir-detective');
+    await storage.storeNarration(link, { narration: 'Once upon a time, again' });
+
+    expect(await storage.getNarration(link)).toEqual({ narration: 'Once upon a time, again' });
+    expect(await storage.getNarration(link, 'roald-dahl')).toEqual({ narration: 'Once upon a time, again' });
+    expect(await storage.getNarration(link, 'noir-detective')).toEqual({ narration: 'The city was quiet' });
+    expect(await storage.getNarration(link, 'plain-english')).toBeNull();
+  });
+
+  it('moves narrations from databases without personas to the default persona', async () => {
+    const legacyPath = path.join(cacheDir, 'legacy.db');
+    const legacy = new Database(legacyPath);
+    legacy.exec('CREATE TABLE narrations (news_link TEXT PRIMARY KEY, data TEXT NOT NULL, created_at TEXT NOT NULL)');
+    legacy
+      .prepare('INSERT INTO narrations (news_link, data, created_at) VALUES (?, ?, ?)')
+      .run('https://abcnews.go.com/a', JSON.stringify({ roald_dahl_narration: 'An old story' }), '2026-10-01T06:00:00.000Z');
+    legacy.close();
+
+    const migrated = new SqliteCacheStorage(legacyPath);
+
+    expect(await migrated.getNarration('https://abcnews.go.com/a')).toEqual({ roald_dahl_narration: 'An old story' });
+    await migrated.storeNarration('https://abcnews.go.com/a', { narration: 'Noir' }, 'noir-detective');
+    expect(await migrated.getNarration('https://abcnews.go.com/a', 'noir-detective')).toEqual({ narration: 'Noir' });
+
+    // Opening the migrated database again leaves it alone
+    expect(await new SqliteCacheStorage(legacyPath).getNarration('https://abcnews.go.com/a')).toEqual({ roald_dahl_narration: 'An old story' });
+  });
+});